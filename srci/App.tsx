@@ -2,11 +2,56 @@
 import React, { useState, useRef, useCallback } from 'react'
 import Footer from './components/Footer'
 import Recorder from './components/Recorder'
+import type { RecorderHandle } from './components/Recorder'
 import PitchGraphWithControls from './components/PitchGraph'
+import SettingsPanel from './components/SettingsPanel'
+import ComparisonGraph from './components/ComparisonGraph'
+import SubtitlePanel from './components/SubtitlePanel'
+import BookmarkPanel from './components/BookmarkPanel'
+import TimelineMinimap from './components/TimelineMinimap'
+import PitchCachePanel from './components/PitchCachePanel'
+import TakeList from './components/TakeList'
+import ShadowingControls from './components/ShadowingControls'
+import RecordingQualitySummary from './components/RecordingQualitySummary'
 import type { Chart } from 'chart.js';
 import './App.css'
-import { PitchDetector } from 'pitchy'
 import { PitchDataManager } from './services/PitchDataManager'
+import type { PitchData } from './services/PitchDataManager'
+import { PitchWorkerClient, isAbortError } from './services/PitchWorkerClient'
+import { smoothPitch } from './services/PitchExtraction'
+import { loadPitchAnalysisSettings, savePitchAnalysisSettings } from './services/PitchAnalysisSettings'
+import type { PitchAnalysisSettings } from './services/PitchAnalysisSettings'
+import { PITCH_SCALE_MODES, computePitchScaleReference, getPitchScaleUnit, loadPitchScaleMode, savePitchScaleMode } from './services/PitchScale'
+import type { PitchScaleMode } from './services/PitchScale'
+import { loadChartLayerSettings, saveChartLayerSettings } from './services/ChartLayers'
+import type { ChartLayerSettings } from './services/ChartLayers'
+import { alignContours } from './services/TimeAlignment'
+import { scoreTake } from './services/PronunciationScore'
+import { evenMoraBoundaries, parseMoraInput } from './services/Mora'
+import { classifyAccent } from './services/AccentClassifier'
+import { parseSubtitles } from './services/SubtitleParser'
+import type { SubtitleCue } from './services/SubtitleParser'
+import { hashFile } from './services/FileHash'
+import { createBookmarkId, deleteBookmark, loadBookmarks, saveBookmarks } from './services/BookmarkStore'
+import type { Bookmark } from './services/BookmarkStore'
+import type { AudioOverview } from './services/AudioOverview'
+import { PitchTrackCache } from './services/PitchTrackCache'
+import { PITCH_EXPORT_FORMATS, downloadTextFile, exportPitchData } from './services/PitchExport'
+import type { PitchExportFormat } from './services/PitchExport'
+import { decodePraatText, parsePraatFile, pitchTierToPitchData } from './services/PraatParser'
+import type { TextGrid } from './services/PraatParser'
+import { PROJECT_FILE_EXTENSION, readProjectFile, writeProjectFile } from './services/ProjectFile'
+import type { ProjectBookmark, ProjectState } from './services/ProjectFile'
+import { downloadBlob } from './services/Download'
+import { addTake, createTakeId, isTakeForLoop } from './services/TakeHistory'
+import type { UserTake } from './services/TakeHistory'
+import { createShadowingAbortError, runShadowing } from './services/Shadowing'
+import { LivePitchTracker } from './services/LivePitchTracker'
+import { TRIM_PADDING_OPTIONS, decodeRecording, loadTrimSettings, saveTrimSettings, trimRecording } from './services/VoiceActivity'
+import type { TrimSettings } from './services/VoiceActivity'
+import type { ShadowingStatus } from './services/Shadowing'
+import { analyseRecordingQuality } from './services/RecordingQuality'
+import type { RecordingQuality } from './services/RecordingQuality'
 
 // Initialize mobile debug console if needed
 if (typeof window !== 'undefined' && window.location.search.includes('debug=true')) {
@@ -72,82 +117,41 @@ if (typeof window !== 'undefined' && window.location.search.includes('debug=true
   };
 }
 
-// Median filter for smoothing
-function medianFilter(arr: (number | null)[], windowSize: number): (number | null)[] {
-  const result: (number | null)[] = []
-  for (let i = 0; i < arr.length; i++) {
-    const window: number[] = []
-    for (let j = Math.max(0, i - Math.floor(windowSize / 2)); j <= Math.min(arr.length - 1, i + Math.floor(windowSize / 2)); j++) {
-      if (arr[j] !== null && !isNaN(arr[j]!)) window.push(arr[j]!)
-    }
-    if (window.length > 0) {
-      window.sort((a, b) => a - b)
-      result.push(window[Math.floor(window.length / 2)])
-    } else {
-      result.push(null)
-    }
-  }
-  return result
-}
-
-// Enhanced smoothing for pitch data to create more simplified curves 
-function smoothPitch(pitches: (number | null)[], windowSize = 25): (number | null)[] {
-  // First apply a strong median filter to remove outliers and noise
-  const medianSmoothed = medianFilter(pitches, windowSize);
-  
-  // Then apply a moving average to create smoother transitions
-  const result: (number | null)[] = [];
-  const halfWindow = Math.floor(windowSize / 2);
-  
-  for (let i = 0; i < medianSmoothed.length; i++) {
-    if (medianSmoothed[i] === null) {
-      result.push(null);
-      continue;
-    }
-    
-    let sum = 0;
-    let count = 0;
-    
-    // Calculate weighted moving average
-    for (let j = Math.max(0, i - halfWindow); j <= Math.min(medianSmoothed.length - 1, i + halfWindow); j++) {
-      if (medianSmoothed[j] !== null) {
-        // Apply weight based on distance from center point (gaussian-like)
-        const weight = 1 - Math.abs(i - j) / (halfWindow + 1);
-        sum += (medianSmoothed[j] as number) * weight;
-        count += weight;
-      }
-    }
-    
-    if (count > 0) {
-      result.push(sum / count);
-    } else {
-      result.push(medianSmoothed[i]);
-    }
-  }
-  
-  return result;
-}
-
-const MIN_PITCH = 60
-const MAX_PITCH = 500
-const MIN_CLARITY = 0.8
-const MEDIAN_FILTER_SIZE = 5
-
 // Constants for default y-axis bounds (update to more visually pleasing round numbers)
 const DEFAULT_MIN_PITCH = 50;
 const DEFAULT_MAX_PITCH = 500;
 
-// Type definitions
-interface AudioContextType extends AudioContext {
-  decodeAudioData: (arrayBuffer: ArrayBuffer) => Promise<AudioBuffer>;
-}
+// How often the live pitch track is redrawn while recording
+const LIVE_PITCH_REDRAW_MS = 100;
 
+// Type definitions
 declare global {
   interface Window {
     webkitAudioContext: typeof AudioContext;
   }
 }
 
+// Decode a recording and run it through the pitch worker
+const extractRecordingPitch = async (
+  worker: PitchWorkerClient,
+  blob: Blob,
+  settings: PitchAnalysisSettings,
+  signal: AbortSignal
+): Promise<PitchData> => {
+  const audioBuffer = await decodeRecording(blob);
+  // Copy the channel data, its buffer is transferred to the worker
+  const channelData = audioBuffer.getChannelData(0).slice();
+  return worker.extract({
+    samples: channelData,
+    sampleRate: audioBuffer.sampleRate,
+    startSample: 0,
+    rangeStart: 0,
+    rangeEnd: channelData.length,
+    padFinalFrame: false,
+    settings
+  }, { signal });
+};
+
 // Add extended chart type with our custom methods
 interface ExtendedChart extends Chart<'line', (number | null)[], number> {
   setViewRange?: (range: { min: number; max: number }) => void;
@@ -156,18 +160,65 @@ interface ExtendedChart extends Chart<'line', (number | null)[], number> {
 
 const App: React.FC = () => {
   // User pitch data
-  const [userPitchData, setUserPitchData] = useState<{ times: number[]; pitches: (number | null)[] }>({ times: [], pitches: [] })
+  const [userPitchData, setUserPitchData] = useState<PitchData>({ times: [], pitches: [], confidence: [] })
   const [audioBlob, setAudioBlob] = useState<Blob | null>(null)
   const [userAudioUrl, setUserAudioUrl] = useState<string | undefined>(undefined)
 
+  // Every recording is kept as a take of the loop it was recorded against. The active take
+  // (A) drives audioBlob and the user chart; the compared take (B) is overlaid on the comparison.
+  const [takes, setTakes] = useState<UserTake[]>([])
+  const [recordingQuality, setRecordingQuality] = useState<RecordingQuality | null>(null)
+  const [activeTakeId, setActiveTakeId] = useState<string | null>(null)
+  const [compareTakeId, setCompareTakeId] = useState<string | null>(null)
+
+  // Shadowing session: drives the recorder through listen-repeat cycles. While it runs,
+  // the loop logic pauses at the loop end instead of replaying the loop.
+  const recorderRef = useRef<RecorderHandle>(null)
+  const shadowingControllerRef = useRef<AbortController | null>(null)
+  const [shadowingStatus, setShadowingStatus] = useState<ShadowingStatus | null>(null)
+
+  // Microphone pitch tracked while recording, drawn on the user chart in place of the take,
+  // optionally over a ghost of the native loop
+  const [liveStream, setLiveStream] = useState<MediaStream | null>(null)
+  const [livePitchData, setLivePitchData] = useState<PitchData | null>(null)
+  const [showLivePitch, setShowLivePitch] = useState(true)
+  const [showNativeGhost, setShowNativeGhost] = useState(true)
+
+  // Leading and trailing silence is cut off new takes before they are analysed
+  const [trimSettings, setTrimSettings] = useState<TrimSettings>(loadTrimSettings)
+
   // Native pitch data
-  const [nativePitchData, setNativePitchData] = useState<{ times: number[]; pitches: (number | null)[] }>({ times: [], pitches: [] })
+  const [nativePitchData, setNativePitchData] = useState<PitchData>({ times: [], pitches: [], confidence: [] })
   const [nativeMediaUrl, setNativeMediaUrl] = useState<string | null>(null)
   const [nativeMediaType, setNativeMediaType] = useState<'audio' | 'video' | null>(null)
   const fileInputRef = useRef<HTMLInputElement>(null)
   const nativeVideoRef = useRef<HTMLVideoElement>(null)
   const nativeAudioRef = useRef<HTMLAudioElement>(null)
 
+  // Subtitle cues for the native recording, used for sentence-by-sentence looping
+  const [subtitleCues, setSubtitleCues] = useState<SubtitleCue[]>([])
+  const subtitleInputRef = useRef<HTMLInputElement>(null)
+
+  // Content hash of the loaded native file, null while hashing; keys the per-file bookmarks
+  const [nativeFileHash, setNativeFileHash] = useState<string | null>(null)
+  const nativeFileRef = useRef<File | null>(null)
+  // Stops hashing the previous file when another one is loaded
+  const nativeHashControllerRef = useRef<AbortController | null>(null)
+  const [bookmarks, setBookmarks] = useState<Bookmark[]>([])
+
+  // Praat imports: a hand-checked PitchTier that can replace the detected native contour,
+  // and TextGrid tiers drawn over the native chart
+  const praatInputRef = useRef<HTMLInputElement>(null)
+  const [importedPitchTier, setImportedPitchTier] = useState<{ fileName: string; data: PitchData } | null>(null)
+  const [nativeContourSource, setNativeContourSource] = useState<'detected' | 'pitchtier'>('detected')
+  const [textGrid, setTextGrid] = useState<{ fileName: string; grid: TextGrid } | null>(null)
+
+  // Project being opened: its loop and view are applied once the native media has loaded,
+  // its bookmarks once the media has been hashed
+  const projectInputRef = useRef<HTMLInputElement>(null)
+  const pendingProjectRef = useRef<ProjectState | null>(null)
+  const pendingProjectBookmarksRef = useRef<ProjectBookmark[]>([])
+
   // Loop selection and delay state
   const [loopStart, setLoopStart] = useState(0)
   const [loopEnd, setLoopEnd] = useState(0)
@@ -182,25 +233,54 @@ const App: React.FC = () => {
 
   const [nativeChartInstance, setNativeChartInstance] = useState<ExtendedChart | null>(null);
 
+  // Native chart viewport as last requested through handleViewChange, and the whole-file
+  // overview shown in the timeline minimap for long media
+  const [nativeViewRange, setNativeViewRange] = useState<{ start: number; end: number } | null>(null);
+  const [audioOverview, setAudioOverview] = useState<AudioOverview | null>(null);
+
   // Add drag state
   const [isDragging, setIsDragging] = useState(false);
 
+  // Pitch detection settings shared by native and user analysis
+  const [analysisSettings, setAnalysisSettings] = useState<PitchAnalysisSettings>(loadPitchAnalysisSettings);
+
+  // Y axis units for both pitch charts
+  const [yAxisMode, setYAxisMode] = useState<PitchScaleMode>(loadPitchScaleMode);
+  const [chartLayers, setChartLayers] = useState<ChartLayerSettings>(loadChartLayerSettings);
+
+  // Word being drilled, as kana or a mora count, for the accent classifier
+  const [accentInput, setAccentInput] = useState('');
+
+  // File format for pitch exports
+  const [exportFormat, setExportFormat] = useState<PitchExportFormat>('csv');
+
+  // Mora boundaries dragged by the user, tied to the loop region they were set for
+  const [customMoraBoundaries, setCustomMoraBoundaries] = useState<{ loopStart: number; loopEnd: number; boundaries: number[] } | null>(null);
+
+  // Shared pitch worker for native and user recordings (spawned lazily on first use)
+  const pitchWorker = useRef(new PitchWorkerClient());
+
+  // Analysed pitch tracks persisted across sessions, keyed by file content and settings
+  const pitchCache = useRef(new PitchTrackCache());
+
   // Add PitchDataManager
   const pitchManager = useRef(new PitchDataManager({
     thresholdDuration: 30, // 30 seconds
     segmentDuration: 10,   // 10 second segments
     preloadSegments: 1,    // Load one segment ahead
     maxCachedSegments: 6   // Keep 6 segments in memory
-  }));
+  }, pitchWorker.current, analysisSettings, pitchCache.current));
 
   // Add a ref to track last valid user-set loop region
   const userSetLoopRef = useRef<{start: number, end: number} | null>(null);
   
   // Add a ref to track when a new file is being loaded
   const isLoadingNewFileRef = useRef<boolean>(false);
+  // Set once a newly loaded native file has its pitch data and default loop and view
+  const [nativeFileSettled, setNativeFileSettled] = useState(false);
 
-  // Add loading state for pitch data
-  const [isLoadingPitchData, setIsLoadingPitchData] = useState(false);
+  // Pitch extraction progress (0-1) while loading, null when idle
+  const [pitchLoadProgress, setPitchLoadProgress] = useState<number | null>(null);
 
   // Add auto-loop state
   const [autoLoopEnabled, setAutoLoopEnabled] = useState(false);
@@ -215,22 +295,6 @@ const App: React.FC = () => {
   // Get the chart instance reference for the user recording
   const [userChartInstance, setUserChartInstance] = useState<ExtendedChart | null>(null);
 
-  // Add effect to reset user chart view on new recording
-  React.useEffect(() => {
-    if (userChartInstance && isUserRecording && userPitchData.times.length > 0) {
-      const duration = userPitchData.times[userPitchData.times.length - 1];
-      console.log('[App] Directly setting user recording view range:', { min: 0, max: duration });
-      
-      if (userChartInstance.setViewRange) {
-        userChartInstance.setViewRange({ min: 0, max: duration });
-      } else if (userChartInstance.options.scales?.x) {
-        userChartInstance.options.scales.x.min = 0;
-        userChartInstance.options.scales.x.max = duration;
-        userChartInstance.update();
-      }
-    }
-  }, [userChartInstance, isUserRecording, userPitchData.times.length]);
-
   // Add drag and drop handlers
   const handleDragOver = (e: React.DragEvent) => {
     e.preventDefault();
@@ -258,63 +322,109 @@ const App: React.FC = () => {
     const file = e.dataTransfer.files[0];
     if (!file) return;
 
+    if (file.name.toLowerCase().endsWith(PROJECT_FILE_EXTENSION)) {
+      await openProject(file);
+      return;
+    }
+    await loadNativeFile(file, 'drop');
+  };
+
+  // Shared loading path for dropped and picked native files
+  const loadNativeFile = async (file: File, source: 'drop' | 'input' | 'project') => {
+    // Stop any segment loading still scheduled for the previous file
+    if (viewChangeTimeoutRef.current) {
+      clearTimeout(viewChangeTimeoutRef.current);
+    }
+
     // Set flag to indicate we're loading a completely new file
     isLoadingNewFileRef.current = true;
-    console.log('[App] Loading new file via drop, setting isLoadingNewFile flag:', isLoadingNewFileRef.current);
+    setNativeFileSettled(false);
+    console.log(`[App] Loading new file via ${source}, setting isLoadingNewFile flag:`, isLoadingNewFileRef.current);
 
     // Reset user-set loop region when loading a new file
     userSetLoopRef.current = null;
     console.log('[App] New file loaded, clearing user-set loop region');
 
+    shadowingControllerRef.current?.abort();
+
+    // A project opened earlier must not apply its state to some other file
+    if (source !== 'project') {
+      pendingProjectRef.current = null;
+      pendingProjectBookmarksRef.current = [];
+      // Takes were recorded against the previous file's loops
+      setTakes([]);
+      setActiveTakeId(null);
+      setCompareTakeId(null);
+    }
+
+    // Subtitles and bookmarks belong to the previous recording
+    setSubtitleCues([]);
+    setBookmarks([]);
+    setImportedPitchTier(null);
+    setNativeContourSource('detected');
+    setTextGrid(null);
+    setNativeFileHash(null);
+    setAudioOverview(null);
+    setNativeViewRange(null);
+    nativeFileRef.current = file;
+    nativeHashControllerRef.current?.abort();
+    const hashController = new AbortController();
+    nativeHashControllerRef.current = hashController;
+    hashFile(file, hashController.signal)
+      .then(hash => {
+        // Ignore the result if another file was loaded in the meantime
+        if (nativeFileRef.current === file) setNativeFileHash(hash);
+      })
+      .catch(error => {
+        if (!isAbortError(error)) console.warn('[App] Could not hash native file:', error);
+      });
+
     // Use the existing file handling logic
     const url = URL.createObjectURL(file);
     setNativeMediaUrl(url);
-    
-    if (file.type.startsWith('audio/')) {
-      setNativeMediaType('audio');
-      try {
-        console.log('[App] Initializing PitchDataManager with audio file:', file.name);
-        await pitchManager.current.initialize(file);
-        
-        // Get initial pitch data
-        const initialData = pitchManager.current.getPitchDataForTimeRange(0, 30);
-        
-        // Apply enhanced smoothing for a more simplified curve
-        const enhancedData = {
-          times: initialData.times,
-          pitches: smoothPitch(initialData.pitches, 25)
-        };
-        
-        console.log('[App] Initial pitch data loaded and smoothed');
-        setNativePitchData(enhancedData);
-      } catch (error) {
-        console.error('Error processing audio:', error);
-        setNativePitchData({ times: [], pitches: [] });
-      }
-    } else if (file.type.startsWith('video/')) {
-      setNativeMediaType('video');
-      try {
-        console.log('[App] Initializing PitchDataManager with video file:', file.name);
-        await pitchManager.current.initialize(file);
-        
-        // Get initial pitch data
-        const initialData = pitchManager.current.getPitchDataForTimeRange(0, 30);
-        
-        // Apply enhanced smoothing for a more simplified curve
-        const enhancedData = {
-          times: initialData.times,
-          pitches: smoothPitch(initialData.pitches, 25)
-        };
-        
-        console.log('[App] Initial pitch data loaded and smoothed');
-        setNativePitchData(enhancedData);
-      } catch (error) {
-        console.error('Error processing video:', error);
-        setNativePitchData({ times: [], pitches: [] });
+
+    const mediaType = file.type.startsWith('audio/') ? 'audio' : file.type.startsWith('video/') ? 'video' : null;
+    setNativeMediaType(mediaType);
+    if (!mediaType) {
+      pitchManager.current.cancel();
+      setPitchLoadProgress(null);
+      setNativePitchData({ times: [], pitches: [], confidence: [] });
+      return;
+    }
+
+    try {
+      console.log(`[App] Initializing PitchDataManager with ${mediaType} file:`, file.name);
+      setPitchLoadProgress(0);
+      // initialize() cancels any extraction still running for the previous file
+      await pitchManager.current.initialize(file, { onProgress: setPitchLoadProgress });
+      pitchManager.current
+        .loadAudioOverview()
+        .then(overview => {
+          if (nativeFileRef.current === file) setAudioOverview(overview);
+        })
+        .catch(error => console.warn('[App] Could not build audio overview:', error));
+      
+      // Get initial pitch data
+      const initialData = pitchManager.current.getPitchDataForTimeRange(0, 30);
+      
+      // Apply enhanced smoothing for a more simplified curve
+      const enhancedData = {
+        ...initialData,
+        pitches: smoothPitch(initialData.pitches, analysisSettings.smoothingWindow)
+      };
+      
+      console.log('[App] Initial pitch data loaded and smoothed');
+      setNativePitchData(enhancedData);
+      setPitchLoadProgress(null);
+    } catch (error) {
+      if (isAbortError(error)) {
+        // A newer file took over; it owns the loading flag and progress now
+        console.log('[App] Pitch extraction cancelled for', file.name);
+        return;
       }
-    } else {
-      setNativeMediaType(null);
-      setNativePitchData({ times: [], pitches: [] });
+      console.error(`Error processing ${mediaType}:`, error);
+      setNativePitchData({ times: [], pitches: [], confidence: [] });
+      setPitchLoadProgress(null);
     }
     
     // Don't reset the flag here - it will be reset by a useEffect
@@ -328,39 +438,19 @@ const App: React.FC = () => {
     // This is a user recording
     setIsUserRecording(true);
     
+    // Cancel the extraction if a newer recording replaces this one
+    const controller = new AbortController();
+
     const extract = async () => {
       try {
-        const arrayBuffer = await audioBlob.arrayBuffer();
-        const audioCtx = new (window.AudioContext || window.webkitAudioContext)() as AudioContextType;
-        const audioBuffer = await audioCtx.decodeAudioData(arrayBuffer);
-        const channelData = audioBuffer.getChannelData(0);
-        const sampleRate = audioBuffer.sampleRate;
-        const frameSize = 2048;
-        const hopSize = 256;
-        const detector = PitchDetector.forFloat32Array(frameSize);
-        const pitches: (number | null)[] = [];
-        const times: number[] = [];
-        for (let i = 0; i + frameSize < channelData.length; i += hopSize) {
-          const frame = channelData.slice(i, i + frameSize);
-          const [pitch, clarity] = detector.findPitch(frame, sampleRate);
-          if (pitch >= MIN_PITCH && pitch <= MAX_PITCH && clarity >= MIN_CLARITY) {
-            pitches.push(pitch);
-          } else {
-            pitches.push(null);
-          }
-          times.push(i / sampleRate);
-        }
-        
-        // First apply basic median filter
-        const basicSmoothed = medianFilter(pitches, MEDIAN_FILTER_SIZE);
-        
-        // Then apply enhanced smoothing for simplified curves
-        const enhancedSmooth = smoothPitch(basicSmoothed, 25);
-        
-        setUserPitchData({ times, pitches: enhancedSmooth });
+        const data = await extractRecordingPitch(pitchWorker.current, audioBlob, analysisSettings, controller.signal);
+
+        setUserPitchData(data);
+        // Keep the analysis with the take; it is scored again against the loop below
+        setTakes(prev => prev.map(take => (take.blob === audioBlob ? { ...take, pitchData: data, score: null } : take)));
         
         // Calculate the initial range for user pitch data when extracted
-        const [minPitch, maxPitch] = calculateInitialPitchRange(enhancedSmooth);
+        const [minPitch, maxPitch] = calculateInitialPitchRange(data.pitches);
         
         // Use the same y-axis range for user data as we do for native data
         // This makes it easier to compare the two
@@ -379,12 +469,348 @@ const App: React.FC = () => {
           setLoopYFit(newYFit);
         }
       } catch (error) {
+        if (isAbortError(error)) return;
         console.error('Error extracting pitch:', error);
-        setUserPitchData({ times: [], pitches: [] });
+        setUserPitchData({ times: [], pitches: [], confidence: [] });
       }
     };
     extract();
-  }, [audioBlob]);
+    return () => controller.abort();
+  }, [audioBlob, analysisSettings]);
+
+  // Native contour shown and compared against: detected pitch, or an imported PitchTier
+  const showPitchTier = nativeContourSource === 'pitchtier' && importedPitchTier !== null;
+  const nativeContour = showPitchTier ? importedPitchTier.data : nativePitchData;
+
+  // Waveform and intensity layers of a curve, as far as they are switched on
+  const getLevelLayers = useCallback(
+    (data: PitchData) =>
+      chartLayers.waveform || chartLayers.intensity
+        ? {
+            times: data.times,
+            amplitude: chartLayers.waveform ? data.amplitude : undefined,
+            intensity: chartLayers.intensity ? data.intensity : undefined,
+          }
+        : null,
+    [chartLayers]
+  );
+  const nativeLevelLayers = React.useMemo(() => getLevelLayers(nativeContour), [getLevelLayers, nativeContour]);
+
+  // Speaker reference for the normalised y axis modes. Use everything analysed so far rather
+  // than the visible window, so the scale does not shift while panning.
+  const nativeScaleReference = React.useMemo(() => {
+    if (showPitchTier) return computePitchScaleReference(nativeContour.pitches);
+    const manager = pitchManager.current;
+    const analysed = manager.getPitchDataForTimeRange(0, manager.getTotalDuration());
+    return computePitchScaleReference(analysed.pitches.length > 0 ? analysed.pitches : nativePitchData.pitches);
+  }, [nativePitchData, showPitchTier, nativeContour]);
+
+  // Native curve inside the loop region, for the overlaid comparison chart
+  const nativeLoopData = React.useMemo<PitchData>(() => {
+    const indices = nativeContour.times.flatMap((t, i) => (t >= loopStart && t <= loopEnd ? [i] : []));
+    return {
+      times: indices.map(i => nativeContour.times[i]),
+      pitches: indices.map(i => nativeContour.pitches[i]),
+      confidence: indices.map(i => nativeContour.confidence[i] ?? 0)
+    };
+  }, [nativeContour, loopStart, loopEnd]);
+
+  // Align the user take to the native loop and score it
+  const takeAlignment = React.useMemo(() => {
+    if (nativeLoopData.times.length === 0 || userPitchData.times.length === 0) return null;
+    return alignContours(nativeLoopData, userPitchData);
+  }, [nativeLoopData, userPitchData]);
+
+  const takeScore = React.useMemo(() => {
+    if (nativeLoopData.times.length === 0 || userPitchData.times.length === 0) return null;
+    const score = scoreTake(nativeLoopData, userPitchData, takeAlignment);
+    if (score) {
+      console.log('[App] Take score:', score.overall, 'regions:', score.regions.length);
+    }
+    return score;
+  }, [nativeLoopData, userPitchData, takeAlignment]);
+
+  // Takes of the current loop region, and the take overlaid as B
+  const loopTakes = React.useMemo(
+    () => takes.filter(take => isTakeForLoop(take, loopStart, loopEnd)),
+    [takes, loopStart, loopEnd]
+  );
+  const activeTakeIndex = loopTakes.findIndex(take => take.id === activeTakeId);
+  const compareTakeIndex = loopTakes.findIndex(take => take.id === compareTakeId && take.pitchData !== null);
+  const compareTake = compareTakeIndex >= 0 ? loopTakes[compareTakeIndex] : null;
+
+  const compareAlignment = React.useMemo(() => {
+    if (!compareTake?.pitchData || nativeLoopData.times.length === 0) return null;
+    return alignContours(nativeLoopData, compareTake.pitchData);
+  }, [nativeLoopData, compareTake?.pitchData]);
+
+  // Takes restored from a project are analysed in the background, one at a time
+  const unanalysedTake = React.useMemo(
+    () => takes.find(take => take.pitchData === null && take.blob !== audioBlob) ?? null,
+    [takes, audioBlob]
+  );
+  React.useEffect(() => {
+    if (!unanalysedTake) return;
+    const controller = new AbortController();
+    const setPitchData = (pitchData: PitchData) =>
+      setTakes(prev => prev.map(take => (take.id === unanalysedTake.id ? { ...take, pitchData } : take)));
+    extractRecordingPitch(pitchWorker.current, unanalysedTake.blob, analysisSettings, controller.signal)
+      .then(setPitchData)
+      .catch(error => {
+        if (isAbortError(error)) return;
+        console.warn('[App] Could not analyse take:', error);
+        setPitchData({ times: [], pitches: [], confidence: [] });
+      });
+    return () => controller.abort();
+  }, [unanalysedTake, analysisSettings]);
+
+  // Recording levels of the active take, measured on the untrimmed audio once its pitch is in
+  const activeTake = takes.find(take => take.id === activeTakeId) ?? null;
+  React.useEffect(() => {
+    setRecordingQuality(null);
+    if (!activeTake?.pitchData) return;
+    let cancelled = false;
+    analyseRecordingQuality(activeTake.originalBlob, activeTake.pitchData, activeTake.trimOffset)
+      .then(quality => {
+        if (!cancelled) setRecordingQuality(quality);
+      })
+      .catch(error => console.warn('[App] Could not measure recording quality:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [activeTake?.originalBlob, activeTake?.pitchData, activeTake?.trimOffset]);
+
+  // Takes that could not be scored, with the native loop data they were tried against, so
+  // edits to other takes do not align them again
+  const unscorableTakesRef = useRef(new WeakMap<PitchData, PitchData>());
+
+  // Score analysed takes against the native loop they were recorded for
+  React.useEffect(() => {
+    if (nativeLoopData.times.length === 0) return;
+    setTakes(prev => {
+      let changed = false;
+      const next = prev.map(take => {
+        if (take.score !== null || !take.pitchData?.times.length || !isTakeForLoop(take, loopStart, loopEnd)) return take;
+        if (unscorableTakesRef.current.get(take.pitchData) === nativeLoopData) return take;
+        const score = scoreTake(nativeLoopData, take.pitchData, alignContours(nativeLoopData, take.pitchData));
+        if (!score) {
+          unscorableTakesRef.current.set(take.pitchData, nativeLoopData);
+          return take;
+        }
+        changed = true;
+        return { ...take, score: score.overall };
+      });
+      return changed ? next : prev;
+    });
+  }, [takes, nativeLoopData, loopStart, loopEnd]);
+
+  const trimTakeAudio = async (blob: Blob) => {
+    try {
+      return await trimRecording(blob, trimSettings.padding);
+    } catch (error) {
+      console.warn('[App] Could not trim recording:', error);
+      return null;
+    }
+  };
+
+  const addRecordedTake = async (blob: Blob) => {
+    const trimmed = trimSettings.enabled ? await trimTakeAudio(blob) : null;
+    const take: UserTake = {
+      id: createTakeId(),
+      blob: trimmed?.blob ?? blob,
+      originalBlob: blob,
+      trimOffset: trimmed?.offset ?? 0,
+      createdAt: Date.now(),
+      loopStart,
+      loopEnd,
+      pitchData: null,
+      score: null,
+      pinned: false,
+    };
+    console.log(`[App] New take for loop ${loopStart.toFixed(2)}-${loopEnd.toFixed(2)}`);
+    setTakes(prev => addTake(prev, take));
+    setActiveTakeId(take.id);
+    setAudioBlob(take.blob);
+  };
+
+  // Switch a take between its trimmed and its original audio
+  const toggleTakeTrim = async (take: UserTake) => {
+    let blob = take.originalBlob;
+    let trimOffset = 0;
+    if (take.blob === take.originalBlob) {
+      const trimmed = await trimTakeAudio(take.originalBlob);
+      if (!trimmed) return;
+      blob = trimmed.blob;
+      trimOffset = trimmed.offset;
+    }
+    setTakes(prev => prev.map(t => (t.id === take.id ? { ...t, blob, trimOffset, pitchData: null, score: null } : t)));
+    if (take.id === activeTakeId) setAudioBlob(blob);
+  };
+
+  const handleTrimSettingsChange = (settings: TrimSettings) => {
+    saveTrimSettings(settings);
+    setTrimSettings(settings);
+  };
+
+  const selectTake = (take: UserTake) => {
+    if (take.id === compareTakeId) setCompareTakeId(null);
+    setActiveTakeId(take.id);
+    setAudioBlob(take.blob);
+  };
+
+  const toggleTakePin = (take: UserTake) => {
+    setTakes(prev => prev.map(t => (t.id === take.id ? { ...t, pinned: !t.pinned } : t)));
+  };
+
+  // Track the microphone while recording and draw the pitch as it comes in
+  React.useEffect(() => {
+    if (!liveStream || !showLivePitch) return;
+    const times: number[] = [];
+    const pitches: (number | null)[] = [];
+    const confidence: number[] = [];
+    const tracker = new LivePitchTracker(analysisSettings, frame => {
+      times.push(frame.time);
+      pitches.push(frame.pitch);
+      confidence.push(frame.clarity);
+    });
+    tracker.start(liveStream);
+    // Redraw a few times a second rather than for every frame
+    const redraw = setInterval(() => {
+      setLivePitchData({ times: times.slice(), pitches: pitches.slice(), confidence: confidence.slice() });
+    }, LIVE_PITCH_REDRAW_MS);
+    return () => {
+      clearInterval(redraw);
+      tracker.stop();
+      setLivePitchData(null);
+    };
+  }, [liveStream, showLivePitch, analysisSettings]);
+
+  // Pitch shown on the user chart: the live track while recording, otherwise the active take
+  const userChartData = livePitchData ?? userPitchData;
+  const userLevelLayers = React.useMemo(() => getLevelLayers(userChartData), [getLevelLayers, userChartData]);
+  const isUserChartLive = livePitchData !== null;
+
+  const nativeGhost = React.useMemo(
+    () => ({ times: nativeLoopData.times.map(t => t - loopStart), pitches: nativeLoopData.pitches }),
+    [nativeLoopData, loopStart]
+  );
+  const showGhost = isUserChartLive && showNativeGhost && nativeGhost.times.length > 0;
+
+  // While recording, keep the whole loop in view and grow the axis a second at a time
+  const userChartDuration = isUserChartLive
+    ? Math.max(showGhost ? loopEnd - loopStart : 0, Math.ceil(userChartData.times[userChartData.times.length - 1] ?? 0), 1)
+    : userChartData.times[userChartData.times.length - 1] ?? 0;
+
+  // Add effect to reset user chart view on new recording
+  React.useEffect(() => {
+    if (userChartInstance && (isUserRecording || isUserChartLive) && userChartDuration > 0) {
+      console.log('[App] Directly setting user recording view range:', { min: 0, max: userChartDuration });
+      
+      if (userChartInstance.setViewRange) {
+        userChartInstance.setViewRange({ min: 0, max: userChartDuration });
+      } else if (userChartInstance.options.scales?.x) {
+        userChartInstance.options.scales.x.min = 0;
+        userChartInstance.options.scales.x.max = userChartDuration;
+        userChartInstance.update();
+      }
+    }
+  }, [userChartInstance, isUserRecording, isUserChartLive, userChartDuration]);
+
+  const removeTake = (take: UserTake) => {
+    setTakes(prev => prev.filter(t => t.id !== take.id));
+    if (take.id === compareTakeId) setCompareTakeId(null);
+    if (take.id === activeTakeId) {
+      setActiveTakeId(null);
+      setAudioBlob(null);
+      setUserPitchData({ times: [], pitches: [], confidence: [] });
+    }
+  };
+
+  // Estimated accent pattern of the native loop and the user take
+  const moraInput = React.useMemo(() => parseMoraInput(accentInput), [accentInput]);
+
+  // Kana transcript of the loop region, one entry per mora with its time boundaries
+  const moraTranscript = React.useMemo(() => {
+    if (!moraInput || moraInput.morae.length === 0) return null;
+    const { morae } = moraInput;
+    if (
+      customMoraBoundaries &&
+      customMoraBoundaries.loopStart === loopStart &&
+      customMoraBoundaries.loopEnd === loopEnd &&
+      customMoraBoundaries.boundaries.length === morae.length + 1
+    ) {
+      return { morae, boundaries: customMoraBoundaries.boundaries };
+    }
+    // Until the user adjusts them, spread the morae over the voiced part of the loop
+    const voicedTimes = nativeLoopData.times.filter((_, i) => nativeLoopData.pitches[i] !== null);
+    const start = voicedTimes.length > 0 ? voicedTimes[0] : loopStart;
+    const end = voicedTimes.length > 0 ? voicedTimes[voicedTimes.length - 1] : loopEnd;
+    return { morae, boundaries: evenMoraBoundaries(start, end, morae.length) };
+  }, [moraInput, customMoraBoundaries, nativeLoopData, loopStart, loopEnd]);
+
+  const handleMoraBoundariesChange = useCallback((boundaries: number[]) => {
+    console.log('[App] Mora boundaries adjusted:', boundaries);
+    setCustomMoraBoundaries({ loopStart, loopEnd, boundaries });
+  }, [loopStart, loopEnd]);
+
+  const nativeAccent = React.useMemo(
+    () => (moraInput ? classifyAccent(nativeLoopData, moraInput.count, { moraBoundaries: moraTranscript?.boundaries }) : null),
+    [nativeLoopData, moraInput, moraTranscript]
+  );
+  const userAccent = React.useMemo(
+    () => (moraInput ? classifyAccent(userPitchData, moraInput.count) : null),
+    [userPitchData, moraInput]
+  );
+
+  const handleYAxisModeChange = (mode: PitchScaleMode) => {
+    savePitchScaleMode(mode);
+    setYAxisMode(mode);
+  };
+
+  const handleChartLayersChange = (settings: ChartLayerSettings) => {
+    saveChartLayerSettings(settings);
+    setChartLayers(settings);
+  };
+
+  // Re-analyse the loaded native file after the analysis settings change
+  const handleAnalysisSettingsChange = async (settings: PitchAnalysisSettings) => {
+    console.log('[App] Pitch analysis settings changed:', settings);
+    savePitchAnalysisSettings(settings);
+    // Changing the state also re-runs the user recording extraction above
+    setAnalysisSettings(settings);
+    // Other takes were analysed with the old settings too; the background analyser redoes them
+    setTakes(prev => prev.map(take => ({ ...take, pitchData: null, score: null })));
+
+    const manager = pitchManager.current;
+    if (!nativeMediaType) {
+      await manager.setAnalysisSettings(settings);
+      return;
+    }
+
+    setPitchLoadProgress(0);
+    try {
+      await manager.setAnalysisSettings(settings, { onProgress: setPitchLoadProgress });
+
+      let data;
+      if (manager.isInProgressiveMode()) {
+        // Only the visible part needs to be re-analysed now; the rest loads on demand
+        const viewMin = nativeChartInstance?.scales?.x?.min ?? loopStart;
+        const viewMax = nativeChartInstance?.scales?.x?.max ?? loopEnd;
+        await manager.loadSegmentsForTimeRange(viewMin, viewMax, { onProgress: setPitchLoadProgress });
+        data = manager.getPitchDataForTimeRange(viewMin, viewMax);
+      } else {
+        const fullData = manager.getPitchDataForTimeRange(0, manager.getTotalDuration());
+        data = { ...fullData, pitches: smoothPitch(fullData.pitches, settings.smoothingWindow) };
+      }
+
+      setNativePitchData(data);
+      setPitchLoadProgress(null);
+    } catch (error) {
+      if (isAbortError(error)) return;
+      console.error('[App] Error re-analysing native recording:', error);
+      setPitchLoadProgress(null);
+    }
+  };
 
   // Add a helper effect to force redraw of user recording when data changes
   React.useEffect(() => {
@@ -406,66 +832,150 @@ const App: React.FC = () => {
     const file = e.target.files?.[0];
     if (!file) return;
     
-    // Set flag to indicate we're loading a completely new file
-    isLoadingNewFileRef.current = true;
-    console.log('[App] Loading new file via input, setting isLoadingNewFile flag:', isLoadingNewFileRef.current);
-    
-    // Reset user-set loop region when loading a new file
-    userSetLoopRef.current = null;
-    console.log('[App] New file loaded, clearing user-set loop region');
-    
-    const url = URL.createObjectURL(file);
-    setNativeMediaUrl(url);
-    
-    if (file.type.startsWith('audio/')) {
-      setNativeMediaType('audio');
-      try {
-        console.log('[App] Initializing PitchDataManager with audio file:', file.name);
-        await pitchManager.current.initialize(file);
-        
-        // Get initial pitch data
-        const initialData = pitchManager.current.getPitchDataForTimeRange(0, 30);
-        
-        // Apply enhanced smoothing for a more simplified curve
-        const enhancedData = {
-          times: initialData.times,
-          pitches: smoothPitch(initialData.pitches, 25)
-        };
-        
-        console.log('[App] Initial pitch data loaded and smoothed');
-        setNativePitchData(enhancedData);
-      } catch (error) {
-        console.error('Error processing audio:', error);
-        setNativePitchData({ times: [], pitches: [] });
+    await loadNativeFile(file, 'input');
+  };
+
+  // Bookmarks reappear when the same file is loaded again
+  React.useEffect(() => {
+    if (!nativeFileHash) return;
+    let cancelled = false;
+    loadBookmarks(nativeFileHash)
+      .then(loaded => {
+        if (cancelled) return;
+        console.log(`[App] Loaded ${loaded.length} bookmarks for file ${nativeFileHash.slice(0, 8)}`);
+
+        // Add bookmarks from an opened project that this browser does not have yet
+        const imported = pendingProjectBookmarksRef.current
+          .filter(b => !loaded.some(existing => existing.name === b.name && existing.start === b.start && existing.end === b.end))
+          .map((b, i): Bookmark => ({
+            ...b,
+            id: createBookmarkId(),
+            fileHash: nativeFileHash,
+            order: (loaded.length > 0 ? loaded[loaded.length - 1].order + 1 : 0) + i,
+            createdAt: Date.now(),
+          }));
+        pendingProjectBookmarksRef.current = [];
+        if (imported.length > 0) {
+          saveBookmarks(imported).catch(error => console.warn('[App] Could not save project bookmarks:', error));
+        }
+        setBookmarks([...loaded, ...imported]);
+      })
+      .catch(error => console.warn('[App] Could not load bookmarks:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [nativeFileHash]);
+
+  const saveProject = () => {
+    const nativeFile = nativeFileRef.current;
+    const project = writeProjectFile({
+      native: nativeFile ? { name: nativeFile.name, type: nativeFile.type, blob: nativeFile } : null,
+      loopStart,
+      loopEnd,
+      loopDelay,
+      autoLoopEnabled,
+      viewRange: nativeViewRange,
+      bookmarks: bookmarks.map(({ name, start, end, note, tags }) => ({ name, start, end, note, tags })),
+      takes: takes.map((take, i) => ({
+        name: `Take ${i + 1}`,
+        createdAt: take.createdAt,
+        loopStart: take.loopStart,
+        loopEnd: take.loopEnd,
+        pinned: take.pinned,
+        blob: take.blob,
+        originalBlob: take.blob !== take.originalBlob ? take.originalBlob : null,
+        trimOffset: take.trimOffset,
+      })),
+    });
+    const baseName = nativeFile?.name.replace(/\.[^.]+$/, '') || 'practice';
+    downloadBlob(project, `${baseName}${PROJECT_FILE_EXTENSION}`);
+  };
+
+  const openProject = async (file: File) => {
+    try {
+      const project = await readProjectFile(file);
+      console.log('[App] Opening project', file.name, {
+        native: project.native?.name,
+        takes: project.takes.length,
+        bookmarks: project.bookmarks.length
+      });
+
+      setLoopDelay(project.loopDelay);
+      setAutoLoopEnabled(project.autoLoopEnabled);
+      const projectTakes = project.takes.map((take): UserTake => ({
+        id: createTakeId(),
+        blob: take.blob,
+        originalBlob: take.originalBlob ?? take.blob,
+        trimOffset: take.trimOffset,
+        createdAt: take.createdAt,
+        loopStart: take.loopStart,
+        loopEnd: take.loopEnd,
+        pitchData: null,
+        score: null,
+        pinned: take.pinned,
+      }));
+      const lastTake = projectTakes.length > 0 ? projectTakes[projectTakes.length - 1] : null;
+      setTakes(projectTakes);
+      setActiveTakeId(lastTake?.id ?? null);
+      setCompareTakeId(null);
+      setAudioBlob(lastTake?.blob ?? null);
+
+      if (project.native) {
+        pendingProjectRef.current = project;
+        pendingProjectBookmarksRef.current = project.bookmarks;
+        await loadNativeFile(
+          new File([project.native.blob], project.native.name, { type: project.native.type }),
+          'project'
+        );
       }
-    } else if (file.type.startsWith('video/')) {
-      setNativeMediaType('video');
-      try {
-        console.log('[App] Initializing PitchDataManager with video file:', file.name);
-        await pitchManager.current.initialize(file);
-        
-        // Get initial pitch data
-        const initialData = pitchManager.current.getPitchDataForTimeRange(0, 30);
-        
-        // Apply enhanced smoothing for a more simplified curve
-        const enhancedData = {
-          times: initialData.times,
-          pitches: smoothPitch(initialData.pitches, 25)
-        };
-        
-        console.log('[App] Initial pitch data loaded and smoothed');
-        setNativePitchData(enhancedData);
-      } catch (error) {
-        console.error('Error processing video:', error);
-        setNativePitchData({ times: [], pitches: [] });
+    } catch (error) {
+      console.error('[App] Error opening project:', error);
+      alert(`Could not open ${file.name}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  const handleProjectFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) await openProject(file);
+  };
+
+  const handleSubtitleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Allow picking the same file again
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const cues = parseSubtitles(await file.text(), file.name);
+      if (cues.length === 0) {
+        alert(`No subtitle cues found in ${file.name}`);
+        return;
       }
-    } else {
-      setNativeMediaType(null);
-      setNativePitchData({ times: [], pitches: [] });
+      setSubtitleCues(cues);
+    } catch (error) {
+      console.error('[App] Error reading subtitle file:', error);
+      alert('Could not read the subtitle file.');
+    }
+  };
+
+  const handlePraatFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const praatObject = parsePraatFile(decodePraatText(await file.arrayBuffer()));
+      if (praatObject.objectClass === 'PitchTier') {
+        setImportedPitchTier({ fileName: file.name, data: pitchTierToPitchData(praatObject.pitchTier) });
+        setNativeContourSource('pitchtier');
+      } else {
+        setTextGrid({ fileName: file.name, grid: praatObject.textGrid });
+      }
+    } catch (error) {
+      console.error('[App] Error reading Praat file:', error);
+      alert(`Could not read ${file.name}: ${error instanceof Error ? error.message : String(error)}`);
     }
-    
-    // Don't reset the flag here - it will be reset by a useEffect
-    console.log('[App] File loading complete, isLoadingNewFile still set:', isLoadingNewFileRef.current);
   };
 
   // Ensure video is seeked to 0.01 and loaded when a new video is loaded (robust for short files)
@@ -612,6 +1122,8 @@ const App: React.FC = () => {
       clearTimeout(viewChangeTimeoutRef.current);
     }
 
+    setNativeViewRange({ start: startTime, end: endTime });
+
     // Determine which loop region to restore
     // First check if user has manually set a loop region
     const userSetLoop = userSetLoopRef.current;
@@ -657,10 +1169,11 @@ const App: React.FC = () => {
     }
 
     // Set loading state
-    setIsLoadingPitchData(true);
+    setPitchLoadProgress(0);
 
     // Set new timeout for data loading (separated from loop region handling)
     viewChangeTimeoutRef.current = setTimeout(async () => {
+      let wasCancelled = false;
       try {
         // Only load segments if we're in progressive mode
         if (pitchManager.current.isInProgressiveMode()) {
@@ -687,7 +1200,7 @@ const App: React.FC = () => {
           // For initial load of long videos, force loading only first segment
           if (isInitialLoad && isLongVideo) {
             console.log('[App] Initial load of long video, forcing first segment only');
-            await pitchManager.current.loadSegmentsForTimeRange(0, 10);
+            await pitchManager.current.loadSegmentsForTimeRange(0, 10, { onProgress: setPitchLoadProgress });
             const visibleData = pitchManager.current.getPitchDataForTimeRange(0, 10);
             
             // Set initial loop region for first load only if no user-set region
@@ -707,7 +1220,7 @@ const App: React.FC = () => {
             initialSetupDoneRef.current = true;
           } else if (!isInitialLoad) {
             // Only load new segments if this is not the initial setup
-            await pitchManager.current.loadSegmentsForTimeRange(startTime, endTime);
+            await pitchManager.current.loadSegmentsForTimeRange(startTime, endTime, { onProgress: setPitchLoadProgress });
             
             // Get data for the current view
             const visibleData = pitchManager.current.getPitchDataForTimeRange(startTime, endTime);
@@ -748,10 +1261,16 @@ const App: React.FC = () => {
           }
         }
       } catch (error) {
-        console.error('Error loading pitch data for time range:', error);
+        if (isAbortError(error)) {
+          // A new file was loaded; its own load owns the progress indicator
+          wasCancelled = true;
+          console.log('[App] Segment loading cancelled by a newer file');
+        } else {
+          console.error('Error loading pitch data for time range:', error);
+        }
       } finally {
         // Clear loading state
-        setIsLoadingPitchData(false);
+        if (!wasCancelled) setPitchLoadProgress(null);
       }
     }, 100); // 100ms debounce
   }, [nativePitchData.times, loopStart, loopEnd]);
@@ -1100,6 +1619,9 @@ const App: React.FC = () => {
       
       // Pause playback immediately
       media.pause();
+
+      // Shadowing records the learner now instead of replaying the loop
+      if (shadowingControllerRef.current) return;
       
       // Clear any existing timeout to avoid multiple resets
       if (timeout) clearTimeout(timeout);
@@ -1372,6 +1894,69 @@ const App: React.FC = () => {
     return null;
   };
 
+  // Play the loop region once; resolves when the loop logic pauses playback at the loop end
+  const playNativeLoopOnce = (signal: AbortSignal) => new Promise<void>((resolve, reject) => {
+    const media = getActiveMediaElement();
+    if (!media) {
+      reject(new Error('No native media loaded'));
+      return;
+    }
+    if (signal.aborted) {
+      reject(createShadowingAbortError());
+      return;
+    }
+    const cleanup = () => {
+      media.removeEventListener('pause', onPause);
+      signal.removeEventListener('abort', onAbort);
+    };
+    const onPause = () => {
+      cleanup();
+      resolve();
+    };
+    const onAbort = () => {
+      cleanup();
+      media.pause();
+      reject(createShadowingAbortError());
+    };
+    media.pause();
+    media.currentTime = loopStart;
+    media.addEventListener('pause', onPause);
+    signal.addEventListener('abort', onAbort, { once: true });
+    media.play().catch(error => {
+      cleanup();
+      reject(error);
+    });
+  });
+
+  const startShadowing = async ({ cycles, simultaneous }: { cycles: number; simultaneous: boolean }) => {
+    if (shadowingControllerRef.current || loopEnd <= loopStart) return;
+    const controller = new AbortController();
+    shadowingControllerRef.current = controller;
+    try {
+      await runShadowing(
+        { cycles, simultaneous, loopDuration: loopEnd - loopStart, delayMs: loopDelay },
+        {
+          playNativeLoop: playNativeLoopOnce,
+          startRecording: options => recorderRef.current?.startRecording(options) ?? Promise.resolve(false),
+          stopRecording: () => recorderRef.current?.stopRecording(),
+          onStatus: setShadowingStatus,
+        },
+        controller.signal
+      );
+    } catch (error) {
+      if (!isAbortError(error)) {
+        console.error('[App] Shadowing stopped:', error);
+      }
+    } finally {
+      if (shadowingControllerRef.current === controller) shadowingControllerRef.current = null;
+      setShadowingStatus(null);
+    }
+  };
+
+  const stopShadowing = () => {
+    shadowingControllerRef.current?.abort();
+  };
+
   // Add handler for view changes (zooming/panning)
   const viewChangeTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   
@@ -1572,6 +2157,7 @@ const App: React.FC = () => {
       const timerId = setTimeout(() => {
         console.log('[App] Resetting isLoadingNewFile flag after data loaded, delay complete');
         isLoadingNewFileRef.current = false;
+        setNativeFileSettled(true);
       }, 100); // Give some time for other effects to process
       
       return () => clearTimeout(timerId);
@@ -1608,7 +2194,7 @@ const App: React.FC = () => {
       isJumpingToPlaybackRef.current = true;
       
       // First, set loading state to indicate we're changing view
-      setIsLoadingPitchData(true);
+      setPitchLoadProgress(0);
       
       // If auto-loop is enabled, update the loop region immediately
       if (autoLoopEnabled) {
@@ -1643,7 +2229,7 @@ const App: React.FC = () => {
           }
           
           // Clear loading state
-          setIsLoadingPitchData(false);
+          setPitchLoadProgress(null);
           
           // After a delay, set up a verification check to ensure our view didn't get reset
           setTimeout(() => {
@@ -1685,15 +2271,149 @@ const App: React.FC = () => {
         } catch (error) {
           console.error('[App] Error updating chart view:', error);
           isJumpingToPlaybackRef.current = false;
-          setIsLoadingPitchData(false);
+          setPitchLoadProgress(null);
         }
       }, 500); // Delay to allow data loading
     } catch (error) {
       console.error('[App] Error initiating jump to playback:', error);
       // Reset flags
       isJumpingToPlaybackRef.current = false;
-      setIsLoadingPitchData(false);
+      setPitchLoadProgress(null);
+    }
+  };
+
+  // Cue whose times match the current loop region, if any
+  const activeCue = React.useMemo(
+    () => subtitleCues.find(cue => Math.abs(cue.start - loopStart) < 0.05 && Math.abs(cue.end - loopEnd) < 0.05) ?? null,
+    [subtitleCues, loopStart, loopEnd]
+  );
+
+  // Loop a region (subtitle cue or bookmark) and bring it into view, like
+  // jumpToPlaybackPosition does for the playhead
+  const jumpToRegion = (start: number, end: number, view: { start: number; end: number } | null = null) => {
+    const media = getActiveMediaElement();
+    const totalDuration = pitchManager.current.getTotalDuration() || nativeMediaDuration;
+    // Show the region with a little context on either side, unless a view is given
+    const padding = 0.5;
+    const startTime = Math.max(0, view ? view.start : start - padding);
+    const requestedEnd = view ? view.end : end + padding;
+    const endTime = totalDuration > 0 ? Math.min(totalDuration, requestedEnd) : requestedEnd;
+
+    console.log('[App] Jumping to region:', { start, end, view: { startTime, endTime } });
+
+    isJumpingToPlaybackRef.current = true;
+    setPitchLoadProgress(0);
+
+    userSetLoopRef.current = { start, end };
+    setLoopStartWithLogging(start);
+    setLoopEndWithLogging(end);
+    if (media) {
+      media.currentTime = start;
     }
+
+    handleViewChange(startTime, endTime, start, end);
+
+    // Same delay as jumpToPlaybackPosition so the segments can load before the view moves
+    setTimeout(() => {
+      try {
+        if (nativeChartInstance?.setViewRange) {
+          nativeChartInstance.setViewRange({ min: startTime, max: endTime });
+        }
+      } catch (error) {
+        console.error('[App] Error updating chart view for region:', error);
+      } finally {
+        isJumpingToPlaybackRef.current = false;
+        setPitchLoadProgress(null);
+      }
+    }, 500);
+  };
+
+  const jumpToCue = (cue: SubtitleCue) => jumpToRegion(cue.start, cue.end);
+
+  // Latest jumpToRegion, for the project restore below without re-running it every render
+  const jumpToRegionRef = useRef(jumpToRegion);
+  jumpToRegionRef.current = jumpToRegion;
+
+  // Restore the loop and view of an opened project once the new-file setup has applied
+  // its default loop and view
+  React.useEffect(() => {
+    const project = pendingProjectRef.current;
+    if (!project || !nativeFileSettled || !nativeChartInstance) return;
+    pendingProjectRef.current = null;
+    if (project.loopEnd > project.loopStart) {
+      console.log('[App] Restoring project loop and view:', { loop: [project.loopStart, project.loopEnd], view: project.viewRange });
+      jumpToRegionRef.current(project.loopStart, project.loopEnd, project.viewRange);
+    }
+  }, [nativeFileSettled, nativeChartInstance]);
+
+  // Download the native loop or the user's take as CSV, JSON or PitchTier
+  const exportPitch = (source: 'native' | 'user') => {
+    const data = source === 'user'
+      ? userPitchData
+      : showPitchTier
+        ? nativeLoopData
+        : pitchManager.current.getPitchDataForTimeRange(loopStart, loopEnd);
+    if (data.times.length === 0) return;
+
+    const { content, fileName, mimeType } = exportPitchData(
+      data,
+      {
+        source,
+        fileName: source === 'native' ? nativeFileRef.current?.name ?? 'native' : 'user-recording',
+        start: source === 'native' ? loopStart : 0,
+        end: source === 'native' ? loopEnd : data.times[data.times.length - 1],
+        settings: analysisSettings,
+      },
+      exportFormat
+    );
+    console.log(`[App] Exporting ${data.times.length} ${source} pitch frames as ${fileName}`);
+    downloadTextFile(content, fileName, mimeType);
+  };
+
+  // Bookmark matching the current loop region, if any
+  const activeBookmark = bookmarks.find(b => Math.abs(b.start - loopStart) < 0.05 && Math.abs(b.end - loopEnd) < 0.05) ?? null;
+
+  // Persist changed bookmarks and update the list optimistically
+  const storeBookmarks = (next: Bookmark[], changed: Bookmark[]) => {
+    setBookmarks(next);
+    saveBookmarks(changed).catch(error => console.warn('[App] Could not save bookmarks:', error));
+  };
+
+  const addBookmark = () => {
+    if (!nativeFileHash || loopEnd <= loopStart) return;
+    const bookmark: Bookmark = {
+      id: createBookmarkId(),
+      fileHash: nativeFileHash,
+      // Name it after the subtitle being looped when there is one
+      name: activeCue?.text.split('\n')[0] ?? `Loop ${loopStart.toFixed(2)}s - ${loopEnd.toFixed(2)}s`,
+      start: loopStart,
+      end: loopEnd,
+      note: '',
+      tags: [],
+      order: bookmarks.length > 0 ? bookmarks[bookmarks.length - 1].order + 1 : 0,
+      createdAt: Date.now(),
+    };
+    storeBookmarks([...bookmarks, bookmark], [bookmark]);
+  };
+
+  const updateBookmark = (bookmark: Bookmark) => {
+    storeBookmarks(bookmarks.map(b => (b.id === bookmark.id ? bookmark : b)), [bookmark]);
+  };
+
+  const removeBookmark = (bookmark: Bookmark) => {
+    setBookmarks(bookmarks.filter(b => b.id !== bookmark.id));
+    deleteBookmark(bookmark.id).catch(error => console.warn('[App] Could not delete bookmark:', error));
+  };
+
+  const moveBookmark = (bookmark: Bookmark, offset: -1 | 1) => {
+    const index = bookmarks.findIndex(b => b.id === bookmark.id);
+    const target = index + offset;
+    if (index < 0 || target < 0 || target >= bookmarks.length) return;
+    const reordered = [...bookmarks];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    // Renumber so the stored order matches the list
+    const next = reordered.map((b, i) => (b.order === i ? b : { ...b, order: i }));
+    storeBookmarks(next, next.filter((b, i) => b !== reordered[i]));
   };
 
   return (
@@ -1742,6 +2462,81 @@ const App: React.FC = () => {
       <div className="container">
         <h1 className="chorusing-title">Chorusing Drill</h1>
         <main style={{ flex: 1, padding: '1rem 0', width: '100%' }}>
+          <SettingsPanel
+            settings={analysisSettings}
+            onChange={handleAnalysisSettingsChange}
+            disabled={isLoadingNewFileRef.current && pitchLoadProgress !== null}
+          />
+          <PitchCachePanel cache={pitchCache.current} />
+          <div style={{ display: 'flex', justifyContent: 'center', alignItems: 'center', gap: 6, fontSize: 13, marginBottom: '0.5rem' }}>
+            <label htmlFor="y-axis-mode">Pitch scale:</label>
+            <select
+              id="y-axis-mode"
+              value={yAxisMode}
+              onChange={e => handleYAxisModeChange(e.target.value as PitchScaleMode)}
+              style={{ fontSize: 12 }}
+            >
+              {PITCH_SCALE_MODES.map(mode => (
+                <option key={mode.id} value={mode.id}>{mode.label}</option>
+              ))}
+            </select>
+            <label htmlFor="accent-word" style={{ marginLeft: 12 }}>Transcript:</label>
+            <input
+              id="accent-word"
+              type="text"
+              value={accentInput}
+              placeholder="kana or mora count"
+              title="Kana for the loop region (e.g. はし), or just a mora count for accent detection"
+              onChange={e => setAccentInput(e.target.value)}
+              style={{ width: 120, fontSize: 12 }}
+            />
+            <label style={{ marginLeft: 12, display: 'flex', alignItems: 'center', gap: 4 }} title="Amplitude envelope beneath the pitch curves">
+              <input
+                type="checkbox"
+                checked={chartLayers.waveform}
+                onChange={e => handleChartLayersChange({ ...chartLayers, waveform: e.target.checked })}
+              />
+              Waveform
+            </label>
+            <label style={{ display: 'flex', alignItems: 'center', gap: 4 }} title="Intensity (dB) beneath the pitch curves">
+              <input
+                type="checkbox"
+                checked={chartLayers.intensity}
+                onChange={e => handleChartLayersChange({ ...chartLayers, intensity: e.target.checked })}
+              />
+              Intensity
+            </label>
+          </div>
+          {moraInput && (nativeAccent || userAccent) && (
+            <div style={{ textAlign: 'center', fontSize: 13, marginBottom: '0.5rem' }}>
+              {moraInput.count} morae — native: <strong>{nativeAccent?.label ?? '?'}</strong>
+              {', '}you: <strong>{userAccent?.label ?? '?'}</strong>
+            </div>
+          )}
+          <div style={{ display: 'flex', justifyContent: 'center', gap: 8, marginBottom: '0.5rem' }}>
+            <input
+              type="file"
+              accept={PROJECT_FILE_EXTENSION}
+              style={{ display: 'none' }}
+              ref={projectInputRef}
+              onChange={handleProjectFileChange}
+            />
+            <button
+              style={{ fontSize: 12, padding: '2px 8px' }}
+              title="Open a saved practice session"
+              onClick={() => projectInputRef.current?.click()}
+            >
+              Open Project
+            </button>
+            <button
+              style={{ fontSize: 12, padding: '2px 8px' }}
+              title="Save the native media, loop, bookmarks and your takes as one file"
+              disabled={!nativeMediaUrl && !audioBlob}
+              onClick={saveProject}
+            >
+              Save Project
+            </button>
+          </div>
           {/* Native Recording Section */}
           <section style={{ marginBottom: '0.25rem' }}>
             <input
@@ -1767,6 +2562,102 @@ const App: React.FC = () => {
             >
               Load Native Recording
             </button>
+            <input
+              type="file"
+              accept=".srt,.vtt,.ass,.ssa"
+              style={{ display: 'none' }}
+              ref={subtitleInputRef}
+              onChange={handleSubtitleFileChange}
+            />
+            <button
+              onClick={() => subtitleInputRef.current?.click()}
+              disabled={!nativeMediaUrl}
+              title={nativeMediaUrl ? 'Load SRT, VTT or ASS subtitles for the native recording' : 'Load a native recording first'}
+              style={{
+                padding: '8px 20px',
+                borderRadius: 4,
+                border: '1px solid #388e3c',
+                background: '#fff',
+                color: '#388e3c',
+                fontWeight: 500,
+                cursor: nativeMediaUrl ? 'pointer' : 'default',
+                marginBottom: '0.75rem',
+                marginLeft: 8,
+                fontSize: '1rem',
+                opacity: nativeMediaUrl ? 1 : 0.5
+              }}
+            >
+              Load Subtitles
+            </button>
+            <input
+              type="file"
+              accept=".PitchTier,.TextGrid,.txt"
+              style={{ display: 'none' }}
+              ref={praatInputRef}
+              onChange={handlePraatFileChange}
+            />
+            <button
+              onClick={() => praatInputRef.current?.click()}
+              disabled={!nativeMediaUrl}
+              title={nativeMediaUrl ? 'Load a Praat PitchTier or TextGrid for the native recording' : 'Load a native recording first'}
+              style={{
+                padding: '8px 20px',
+                borderRadius: 4,
+                border: '1px solid #795548',
+                background: '#fff',
+                color: '#795548',
+                fontWeight: 500,
+                cursor: nativeMediaUrl ? 'pointer' : 'default',
+                marginBottom: '0.75rem',
+                marginLeft: 8,
+                fontSize: '1rem',
+                opacity: nativeMediaUrl ? 1 : 0.5
+              }}
+            >
+              Load Praat File
+            </button>
+            {(importedPitchTier || textGrid) && (
+              <div style={{ display: 'flex', flexDirection: 'column', alignItems: 'center', gap: 4, fontSize: 12, marginBottom: '0.5rem' }}>
+                {importedPitchTier && (
+                  <div style={{ display: 'flex', alignItems: 'center', gap: 6 }}>
+                    <label htmlFor="native-contour-source">Native contour:</label>
+                    <select
+                      id="native-contour-source"
+                      value={nativeContourSource}
+                      onChange={e => setNativeContourSource(e.target.value as 'detected' | 'pitchtier')}
+                      style={{ fontSize: 12 }}
+                    >
+                      <option value="detected">Detected pitch</option>
+                      <option value="pitchtier">PitchTier ({importedPitchTier.fileName})</option>
+                    </select>
+                    <button
+                      style={{ fontSize: 12, padding: '2px 8px' }}
+                      title="Remove the imported PitchTier"
+                      onClick={() => {
+                        setImportedPitchTier(null);
+                        setNativeContourSource('detected');
+                      }}
+                    >
+                      ✕
+                    </button>
+                  </div>
+                )}
+                {textGrid && (
+                  <div style={{ display: 'flex', alignItems: 'center', gap: 6 }}>
+                    <span>
+                      Annotations: {textGrid.fileName} ({textGrid.grid.tiers.length} tier{textGrid.grid.tiers.length === 1 ? '' : 's'})
+                    </span>
+                    <button
+                      style={{ fontSize: 12, padding: '2px 8px' }}
+                      title="Remove the TextGrid annotations"
+                      onClick={() => setTextGrid(null)}
+                    >
+                      ✕
+                    </button>
+                  </div>
+                )}
+              </div>
+            )}
             {nativeMediaUrl && nativeMediaType === 'audio' && (
               <audio
                 src={nativeMediaUrl}
@@ -1896,12 +2787,63 @@ const App: React.FC = () => {
                     )}
                   </div>
                 </div>
+                <div style={{ width: '100%', maxWidth: 400, display: 'flex', alignItems: 'center', gap: 8 }}>
+                  <span style={{ fontSize: 12 }}>Export pitch:</span>
+                  <select
+                    value={exportFormat}
+                    onChange={e => setExportFormat(e.target.value as PitchExportFormat)}
+                    style={{ fontSize: 12 }}
+                  >
+                    {PITCH_EXPORT_FORMATS.map(format => (
+                      <option key={format.id} value={format.id}>{format.label}</option>
+                    ))}
+                  </select>
+                  <button
+                    style={{ fontSize: 12, padding: '2px 8px' }}
+                    title="Export the native pitch inside the loop region"
+                    onClick={() => exportPitch('native')}
+                  >
+                    Native loop
+                  </button>
+                  <button
+                    style={{ fontSize: 12, padding: '2px 8px' }}
+                    title="Export the pitch of your recording"
+                    disabled={userPitchData.times.length === 0}
+                    onClick={() => exportPitch('user')}
+                  >
+                    Your take
+                  </button>
+                </div>
               </div>
             )}
             
+            <SubtitlePanel
+              cues={subtitleCues}
+              activeCueIndex={activeCue?.index ?? null}
+              onCueSelect={jumpToCue}
+              onClear={() => setSubtitleCues([])}
+            />
+            {nativeMediaUrl && (
+              <BookmarkPanel
+                bookmarks={bookmarks}
+                activeBookmarkId={activeBookmark?.id ?? null}
+                canAdd={nativeFileHash !== null && loopEnd > loopStart}
+                onAdd={addBookmark}
+                onJump={bookmark => jumpToRegion(bookmark.start, bookmark.end)}
+                onUpdate={updateBookmark}
+                onDelete={removeBookmark}
+                onMove={moveBookmark}
+              />
+            )}
+            {activeCue && (
+              <div style={{ textAlign: 'center', fontSize: '1.1rem', whiteSpace: 'pre-line', margin: '0.25rem 0 0.5rem 0' }}>
+                {activeCue.text}
+              </div>
+            )}
+
             {/* Loading indicator */}
             <div style={{ position: 'relative' }}>
-              {isLoadingPitchData && (
+              {pitchLoadProgress !== null && (
                 <div style={{
                   position: 'absolute',
                   top: 10,
@@ -1915,15 +2857,23 @@ const App: React.FC = () => {
                   fontWeight: 'bold',
                   pointerEvents: 'none',
                 }}>
-                  Loading...
+                  Loading... {Math.round(pitchLoadProgress * 100)}%
                 </div>
               )}
               
               <PitchGraphWithControls
                 onChartReady={setNativeChartInstance}
-                times={nativePitchData.times}
-                pitches={nativePitchData.pitches}
-                label="Native Pitch (Hz)"
+                times={nativeContour.times}
+                pitches={nativeContour.pitches}
+                confidence={nativeContour.confidence}
+                annotations={textGrid?.grid.tiers}
+                levelLayers={nativeLevelLayers}
+                yAxisMode={yAxisMode}
+                scaleReference={nativeScaleReference}
+                accentEstimate={nativeAccent}
+                moraTrack={moraTranscript}
+                onMoraBoundariesChange={handleMoraBoundariesChange}
+                label={`Native Pitch (${getPitchScaleUnit(yAxisMode)})`}
                 color="#388e3c"
                 loopStart={loopStart}
                 loopEnd={loopEnd}
@@ -1945,19 +2895,53 @@ const App: React.FC = () => {
                 }}
               />
             </div>
+            {audioOverview && pitchManager.current.isInProgressiveMode() && (
+              <div style={{ marginTop: 4 }}>
+                <TimelineMinimap
+                  overview={audioOverview}
+                  duration={pitchManager.current.getTotalDuration() || nativeMediaDuration}
+                  viewStart={nativeViewRange?.start ?? null}
+                  viewEnd={nativeViewRange?.end ?? null}
+                  loopStart={loopStart}
+                  loopEnd={loopEnd}
+                  playbackTime={nativePlaybackTime}
+                  onViewportChange={(start, end) => {
+                    // Move the chart only; segments are loaded once the drag ends
+                    nativeChartInstance?.setViewRange?.({ min: start, max: end });
+                    setNativeViewRange({ start, end });
+                  }}
+                  onViewportCommit={(start, end) => {
+                    nativeChartInstance?.setViewRange?.({ min: start, max: end });
+                    onViewChangeHandler(start, end);
+                  }}
+                  onSeek={time => {
+                    const media = getActiveMediaElement();
+                    if (media) {
+                      media.currentTime = time;
+                    }
+                  }}
+                />
+              </div>
+            )}
           </section>
 
           {/* User Recording Section */}
           <section>
             <PitchGraphWithControls
-              times={userPitchData.times}
-              pitches={userPitchData.pitches}
-              label="Your Pitch (Hz)"
+              times={userChartData.times}
+              pitches={userChartData.pitches}
+              confidence={userChartData.confidence}
+              ghostContour={showGhost ? nativeGhost : null}
+              levelLayers={userLevelLayers}
+              yAxisMode={yAxisMode}
+              accentEstimate={userAccent}
+              morae={moraInput?.morae}
+              label={`Your Pitch (${getPitchScaleUnit(yAxisMode)})`}
               color="#1976d2"
               playbackTime={userPlaybackTime}
-              totalDuration={userPitchData.times.length > 0 ? userPitchData.times[userPitchData.times.length - 1] : 0}
+              totalDuration={userChartDuration}
               yFit={loopYFit}
-              isUserRecording={isUserRecording}
+              isUserRecording={isUserRecording || isUserChartLive}
               onChartReady={setUserChartInstance}
               yAxisConfig={{
                 beginAtZero: false,
@@ -1969,13 +2953,90 @@ const App: React.FC = () => {
                 }
               }}
             />
+            <ShadowingControls
+              status={shadowingStatus}
+              disabled={!nativeMediaUrl || loopEnd <= loopStart}
+              onStart={startShadowing}
+              onStop={stopShadowing}
+            />
+            <div style={{ display: 'flex', justifyContent: 'center', gap: 12, fontSize: 12, marginBottom: 4 }}>
+              <label style={{ display: 'flex', alignItems: 'center', gap: 4 }} title="Show your pitch while you are recording">
+                <input type="checkbox" checked={showLivePitch} onChange={e => setShowLivePitch(e.target.checked)} />
+                Live pitch
+              </label>
+              <label style={{ display: 'flex', alignItems: 'center', gap: 4 }} title="Draw the native loop behind your live pitch">
+                <input
+                  type="checkbox"
+                  checked={showNativeGhost}
+                  disabled={!showLivePitch}
+                  onChange={e => setShowNativeGhost(e.target.checked)}
+                />
+                Native ghost
+              </label>
+              <label style={{ display: 'flex', alignItems: 'center', gap: 4 }} title="Cut silence and button noise off both ends of new takes">
+                <input
+                  type="checkbox"
+                  checked={trimSettings.enabled}
+                  onChange={e => handleTrimSettingsChange({ ...trimSettings, enabled: e.target.checked })}
+                />
+                Trim silence
+              </label>
+              <select
+                value={trimSettings.padding}
+                disabled={!trimSettings.enabled}
+                title="Silence kept before and after the speech"
+                onChange={e => handleTrimSettingsChange({ ...trimSettings, padding: Number(e.target.value) })}
+                style={{ fontSize: 12 }}
+              >
+                {TRIM_PADDING_OPTIONS.map(option => (
+                  <option key={option} value={option}>{option.toFixed(1)}s</option>
+                ))}
+              </select>
+            </div>
             <Recorder
-              onRecordingComplete={(_, blob: Blob) => setAudioBlob(blob)}
+              controlRef={recorderRef}
+              onStreamChange={setLiveStream}
+              onRecordingComplete={(_, blob: Blob) => addRecordedTake(blob)}
               audioUrl={userAudioUrl}
               audioRef={userAudioRef}
               showPlayer={true}
             />
+            {recordingQuality && <RecordingQualitySummary quality={recordingQuality} />}
+            {(nativeMediaUrl || takes.length > 0) && (
+              <TakeList
+                takes={loopTakes}
+                activeTakeId={activeTakeId}
+                compareTakeId={compareTake?.id ?? null}
+                onSelect={selectTake}
+                onCompare={take => setCompareTakeId(take?.id ?? null)}
+                onTogglePin={toggleTakePin}
+                onToggleTrim={toggleTakeTrim}
+                onDelete={removeTake}
+              />
+            )}
           </section>
+
+          {/* Overlaid comparison of the native loop and the user take */}
+          {nativeLoopData.times.length > 0 && userPitchData.times.length > 0 && (
+            <section>
+              <ComparisonGraph
+                native={nativeLoopData}
+                loopStart={loopStart}
+                loopEnd={loopEnd}
+                user={userPitchData}
+                warp={takeAlignment}
+                userLabel={activeTakeIndex >= 0 ? `Take ${activeTakeIndex + 1}` : 'You'}
+                compare={compareTake?.pitchData ? {
+                  label: `Take ${compareTakeIndex + 1}`,
+                  data: compareTake.pitchData,
+                  warp: compareAlignment
+                } : null}
+                score={takeScore}
+                yAxisMode={yAxisMode}
+                nativeReference={nativeScaleReference}
+              />
+            </section>
+          )}
         </main>
         <Footer />
       </div>
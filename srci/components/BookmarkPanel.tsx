@@ -0,0 +1,170 @@
+import React, { useState } from 'react';
+import { parseTags } from '../services/BookmarkStore';
+import type { Bookmark } from '../services/BookmarkStore';
+
+interface BookmarkPanelProps {
+  bookmarks: Bookmark[];
+  activeBookmarkId: string | null;
+  // False until the media file has been hashed
+  canAdd: boolean;
+  onAdd: () => void;
+  onJump: (bookmark: Bookmark) => void;
+  onUpdate: (bookmark: Bookmark) => void;
+  onDelete: (bookmark: Bookmark) => void;
+  onMove: (bookmark: Bookmark, offset: -1 | 1) => void;
+}
+
+interface BookmarkDraft {
+  name: string;
+  note: string;
+  tags: string;
+}
+
+const smallButtonStyle: React.CSSProperties = { fontSize: 12, padding: '2px 6px' };
+const inputStyle: React.CSSProperties = { fontSize: 12, width: '100%', boxSizing: 'border-box' };
+
+const BookmarkPanel: React.FC<BookmarkPanelProps> = ({
+  bookmarks,
+  activeBookmarkId,
+  canAdd,
+  onAdd,
+  onJump,
+  onUpdate,
+  onDelete,
+  onMove,
+}) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<BookmarkDraft>({ name: '', note: '', tags: '' });
+
+  const startEditing = (bookmark: Bookmark) => {
+    setEditingId(bookmark.id);
+    setDraft({ name: bookmark.name, note: bookmark.note, tags: bookmark.tags.join(', ') });
+  };
+
+  const saveEditing = (bookmark: Bookmark) => {
+    onUpdate({
+      ...bookmark,
+      name: draft.name.trim() || bookmark.name,
+      note: draft.note.trim(),
+      tags: parseTags(draft.tags),
+    });
+    setEditingId(null);
+  };
+
+  return (
+    <details style={{ width: '100%', maxWidth: 400, margin: '0 auto 0.75rem auto', textAlign: 'left', fontSize: 13 }}>
+      <summary style={{ cursor: 'pointer', color: '#1976d2' }}>Bookmarks ({bookmarks.length})</summary>
+      <div style={{ display: 'flex', flexDirection: 'column', gap: 4, padding: '8px 4px' }}>
+        <button
+          style={{ ...smallButtonStyle, alignSelf: 'flex-start' }}
+          title="Bookmark the current loop region"
+          disabled={!canAdd}
+          onClick={onAdd}
+        >
+          + Bookmark loop
+        </button>
+        {bookmarks.length === 0 && (
+          <span style={{ fontSize: 12, color: '#888' }}>No bookmarks for this file yet.</span>
+        )}
+        {bookmarks.map((bookmark, index) => {
+          const isActive = bookmark.id === activeBookmarkId;
+          const isEditing = bookmark.id === editingId;
+          return (
+            <div
+              key={bookmark.id}
+              style={{
+                border: '1px solid #ddd',
+                borderRadius: 4,
+                padding: '4px 6px',
+                background: isActive ? 'rgba(25, 118, 210, 0.12)' : 'transparent',
+              }}
+            >
+              {isEditing ? (
+                <div style={{ display: 'flex', flexDirection: 'column', gap: 4 }}>
+                  <input
+                    style={inputStyle}
+                    value={draft.name}
+                    placeholder="Name"
+                    onChange={e => setDraft({ ...draft, name: e.target.value })}
+                    onKeyDown={e => {
+                      if (e.key === 'Enter') saveEditing(bookmark);
+                      if (e.key === 'Escape') setEditingId(null);
+                    }}
+                    autoFocus
+                  />
+                  <textarea
+                    style={{ ...inputStyle, resize: 'vertical' }}
+                    rows={2}
+                    value={draft.note}
+                    placeholder="Note"
+                    onChange={e => setDraft({ ...draft, note: e.target.value })}
+                  />
+                  <input
+                    style={inputStyle}
+                    value={draft.tags}
+                    placeholder="Tags, comma separated"
+                    onChange={e => setDraft({ ...draft, tags: e.target.value })}
+                  />
+                  <div style={{ display: 'flex', gap: 4, justifyContent: 'flex-end' }}>
+                    <button style={smallButtonStyle} onClick={() => setEditingId(null)}>Cancel</button>
+                    <button style={smallButtonStyle} onClick={() => saveEditing(bookmark)}>Save</button>
+                  </div>
+                </div>
+              ) : (
+                <>
+                  <div style={{ display: 'flex', alignItems: 'center', gap: 4 }}>
+                    <span
+                      style={{ flex: 1, cursor: 'pointer', fontWeight: isActive ? 600 : 400 }}
+                      title="Loop this bookmark"
+                      onClick={() => onJump(bookmark)}
+                    >
+                      {bookmark.name}
+                      <span style={{ fontSize: 11, color: '#888', marginLeft: 6 }}>
+                        {bookmark.start.toFixed(2)}s - {bookmark.end.toFixed(2)}s
+                      </span>
+                    </span>
+                    <button style={smallButtonStyle} title="Move up" disabled={index === 0} onClick={() => onMove(bookmark, -1)}>▲</button>
+                    <button
+                      style={smallButtonStyle}
+                      title="Move down"
+                      disabled={index === bookmarks.length - 1}
+                      onClick={() => onMove(bookmark, 1)}
+                    >
+                      ▼
+                    </button>
+                    <button style={smallButtonStyle} title="Rename or edit note and tags" onClick={() => startEditing(bookmark)}>✎</button>
+                    <button
+                      style={smallButtonStyle}
+                      title="Delete bookmark"
+                      onClick={() => {
+                        if (window.confirm(`Delete bookmark "${bookmark.name}"?`)) onDelete(bookmark);
+                      }}
+                    >
+                      ✕
+                    </button>
+                  </div>
+                  {(bookmark.note || bookmark.tags.length > 0) && (
+                    <div style={{ fontSize: 11, color: '#555', marginTop: 2 }}>
+                      {bookmark.note && <div style={{ whiteSpace: 'pre-line' }}>{bookmark.note}</div>}
+                      {bookmark.tags.length > 0 && (
+                        <div style={{ display: 'flex', flexWrap: 'wrap', gap: 4, marginTop: 2 }}>
+                          {bookmark.tags.map(tag => (
+                            <span key={tag} style={{ background: '#e3f2fd', color: '#1976d2', borderRadius: 8, padding: '0 6px' }}>
+                              {tag}
+                            </span>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  )}
+                </>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </details>
+  );
+};
+
+export default BookmarkPanel;
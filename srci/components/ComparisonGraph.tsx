@@ -0,0 +1,317 @@
+import React, { useMemo, useState } from 'react';
+import { Line } from 'react-chartjs-2';
+import {
+  Chart as ChartJS,
+  LineElement,
+  PointElement,
+  LinearScale,
+  Tooltip,
+  Legend,
+} from 'chart.js';
+import type { Plugin, ChartTypeRegistry } from 'chart.js';
+import { warpTime } from '../services/TimeAlignment';
+import type { TimeWarp } from '../services/TimeAlignment';
+import type { DeviationRegion, PronunciationScore } from '../services/PronunciationScore';
+import {
+  computePitchScaleReference,
+  convertPitches,
+  formatPitchTick,
+  formatPitchValue,
+  getPitchScaleRange,
+  getPitchScaleStep,
+  getPitchScaleUnit,
+} from '../services/PitchScale';
+import type { PitchScaleMode, PitchScaleReference } from '../services/PitchScale';
+import type { PitchData } from '../services/PitchExtraction';
+
+ChartJS.register(LineElement, PointElement, LinearScale, Tooltip, Legend);
+
+type TimingMode = 'raw' | 'warped';
+
+interface ComparisonPoint {
+  x: number;
+  y: number | null;
+}
+
+// A second take overlaid for A/B comparison
+export interface ComparisonTake {
+  label: string;
+  data: PitchData;
+  warp: TimeWarp | null;
+}
+
+interface ComparisonGraphProps {
+  // Native pitch data for the loop region, on the media timeline
+  native: PitchData;
+  loopStart: number;
+  loopEnd: number;
+  // Whole user take, starting at 0
+  user: PitchData;
+  // DTW alignment of the user take onto the native timeline, null if it failed
+  warp: TimeWarp | null;
+  userLabel?: string;
+  compare?: ComparisonTake | null;
+  score?: PronunciationScore | null;
+  yAxisMode?: PitchScaleMode;
+  nativeReference?: PitchScaleReference | null;
+}
+
+declare module 'chart.js' {
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  interface PluginOptionsByType<TType extends keyof ChartTypeRegistry> {
+    deviationRegions?: { regions?: DeviationRegion[]; loopStart?: number };
+  }
+}
+
+// Shades the regions where the user's contour deviates from the native one. Reads its
+// data from the chart options, since react-chartjs-2 only registers plugins once.
+const deviationRegionsPlugin: Plugin<'line'> = {
+  id: 'deviationRegions',
+  beforeDatasetsDraw(chart) {
+    const { ctx, chartArea, scales } = chart;
+    const regions = (chart.options.plugins?.deviationRegions?.regions ?? []) as DeviationRegion[];
+    const loopStart = chart.options.plugins?.deviationRegions?.loopStart ?? 0;
+    if (!chartArea || regions.length === 0) return;
+    ctx.save();
+    for (const region of regions) {
+      const left = Math.max(chartArea.left, scales.x.getPixelForValue(region.start - loopStart));
+      const right = Math.min(chartArea.right, scales.x.getPixelForValue(region.end - loopStart));
+      if (right <= left) continue;
+      // Red where the user is too high, orange where too low
+      ctx.fillStyle = region.meanDeviation > 0 ? 'rgba(229, 57, 53, 0.15)' : 'rgba(251, 140, 0, 0.15)';
+      ctx.fillRect(left, chartArea.top, right - left, chartArea.bottom - chartArea.top);
+    }
+    ctx.restore();
+  }
+};
+
+const scoreColor = (score: number) => (score >= 75 ? '#388e3c' : score >= 50 ? '#f57c00' : '#d32f2f');
+
+const controlStyle: React.CSSProperties = { fontSize: 12, display: 'flex', alignItems: 'center', gap: 4 };
+
+// Draws the native loop and the user take on one chart. The user curve can be shown with its
+// own timing or warped onto the native timing (DTW), and nudged by hand with shift and scale.
+// A second take can be overlaid to compare two attempts, with or without the native curve.
+const ComparisonGraph: React.FC<ComparisonGraphProps> = ({
+  native,
+  loopStart,
+  loopEnd,
+  user,
+  warp,
+  userLabel = 'You',
+  compare,
+  score,
+  yAxisMode = 'hz',
+  nativeReference,
+}) => {
+  const [timingMode, setTimingMode] = useState<TimingMode>('warped');
+  const [shift, setShift] = useState(0);
+  const [scale, setScale] = useState(1);
+  const [showNative, setShowNative] = useState(true);
+
+  const userReference = useMemo(() => computePitchScaleReference(user.pitches), [user.pitches]);
+  const nativeValues = useMemo(
+    () => convertPitches(native.pitches, yAxisMode, nativeReference ?? computePitchScaleReference(native.pitches)),
+    [native.pitches, yAxisMode, nativeReference]
+  );
+  const userValues = useMemo(
+    () => convertPitches(user.pitches, yAxisMode, userReference),
+    [user.pitches, yAxisMode, userReference]
+  );
+
+  const nativePoints: ComparisonPoint[] = useMemo(
+    () => native.times.map((t, i) => ({ x: t - loopStart, y: nativeValues[i] })),
+    [native.times, nativeValues, loopStart]
+  );
+
+  const comparePitches = compare?.data.pitches;
+  const compareValues = useMemo(
+    () => (comparePitches ? convertPitches(comparePitches, yAxisMode, computePitchScaleReference(comparePitches)) : []),
+    [comparePitches, yAxisMode]
+  );
+
+  const userPoints: ComparisonPoint[] = useMemo(() => {
+    const useWarp = timingMode === 'warped' && warp !== null;
+    return user.times.map((t, i) => {
+      // Raw timing puts the start of the take at the start of the loop
+      const aligned = useWarp ? warpTime(warp, t) - loopStart : t;
+      return { x: aligned * scale + shift, y: userValues[i] };
+    });
+  }, [user.times, userValues, timingMode, warp, loopStart, scale, shift]);
+
+  // Shift and scale only nudge take A; B follows the chosen timing mode as it is
+  const comparePoints: ComparisonPoint[] = useMemo(() => {
+    if (!compare) return [];
+    const compareWarp = timingMode === 'warped' ? compare.warp : null;
+    return compare.data.times.map((t, i) => ({
+      x: compareWarp ? warpTime(compareWarp, t) - loopStart : t,
+      y: compareValues[i],
+    }));
+  }, [compare, compareValues, timingMode, loopStart]);
+
+  const nativeShown = showNative || !compare;
+
+  const yRange = useMemo(
+    () => getPitchScaleRange([...(nativeShown ? nativeValues : []), ...userValues, ...compareValues], yAxisMode),
+    [nativeShown, nativeValues, userValues, compareValues, yAxisMode]
+  );
+
+  const loopDuration = Math.max(0.1, loopEnd - loopStart);
+  const unit = getPitchScaleUnit(yAxisMode);
+
+  const data = {
+    datasets: [
+      {
+        label: `Native (${unit})`,
+        hidden: !nativeShown,
+        data: nativePoints,
+        borderColor: '#388e3c',
+        backgroundColor: 'rgba(56, 142, 60, 0.1)',
+        pointRadius: 0,
+        borderWidth: 3,
+        tension: 0.3,
+        spanGaps: false,
+      },
+      {
+        label: `${userLabel} (${unit})`,
+        data: userPoints,
+        borderColor: '#1976d2',
+        backgroundColor: 'rgba(25, 118, 210, 0.1)',
+        pointRadius: 0,
+        borderWidth: 2,
+        tension: 0.3,
+        spanGaps: false,
+      },
+      ...(compare
+        ? [{
+            label: `${compare.label} (${unit})`,
+            data: comparePoints,
+            borderColor: '#8e24aa',
+            backgroundColor: 'rgba(142, 36, 170, 0.1)',
+            pointRadius: 0,
+            borderWidth: 2,
+            borderDash: [5, 3],
+            tension: 0.3,
+            spanGaps: false,
+          }]
+        : []),
+    ],
+  };
+
+  const options = {
+    responsive: true,
+    maintainAspectRatio: false,
+    animation: { duration: 0 },
+    plugins: {
+      legend: { display: true, labels: { boxWidth: 12, font: { size: 10 } } },
+      deviationRegions: { regions: nativeShown ? score?.regions ?? [] : [], loopStart },
+      tooltip: {
+        callbacks: {
+          label: (ctx: { dataset: { label?: string }; parsed: { y: number | null } }) =>
+            ctx.parsed.y === null ? '' : `${ctx.dataset.label}: ${formatPitchValue(ctx.parsed.y, yAxisMode)}`,
+        },
+      },
+    },
+    scales: {
+      x: {
+        type: 'linear' as const,
+        min: 0,
+        max: loopDuration,
+        ticks: { maxTicksLimit: 8, font: { size: 9 } },
+      },
+      y: {
+        min: yRange[0],
+        max: yRange[1],
+        ticks: {
+          font: { size: 9 },
+          stepSize: getPitchScaleStep(yAxisMode),
+          callback: (value: number | string) => formatPitchTick(Number(value), yAxisMode),
+        },
+      },
+    },
+  };
+
+  return (
+    <div style={{ width: '100%', marginTop: '0.5rem' }}>
+      <div style={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: 12, marginBottom: 4 }}>
+        <strong style={{ fontSize: 13 }}>Comparison</strong>
+        {score && (
+          <span
+            style={{ fontSize: 13, fontWeight: 'bold', color: scoreColor(score.overall) }}
+            title={`Mean deviation ${score.meanAbsoluteDeviation.toFixed(1)} semitones, ${Math.round(score.coverage * 100)}% of the native voicing covered`}
+          >
+            Score: {score.overall}/100
+          </span>
+        )}
+        <label style={controlStyle}>
+          <input
+            type="radio"
+            name="comparison-timing"
+            checked={timingMode === 'raw'}
+            onChange={() => setTimingMode('raw')}
+          />
+          Raw timing
+        </label>
+        <label style={controlStyle} title={warp ? 'Warp your take onto the native timing' : 'Not enough voiced frames to align'}>
+          <input
+            type="radio"
+            name="comparison-timing"
+            checked={timingMode === 'warped'}
+            disabled={!warp}
+            onChange={() => setTimingMode('warped')}
+          />
+          Aligned (DTW)
+        </label>
+        <label style={controlStyle}>
+          Shift
+          <input
+            type="range"
+            min={-1}
+            max={1}
+            step={0.01}
+            value={shift}
+            onChange={e => setShift(Number(e.target.value))}
+          />
+          <span style={{ width: 44 }}>{shift.toFixed(2)}s</span>
+        </label>
+        <label style={controlStyle}>
+          Scale
+          <input
+            type="range"
+            min={0.5}
+            max={2}
+            step={0.01}
+            value={scale}
+            onChange={e => setScale(Number(e.target.value))}
+          />
+          <span style={{ width: 36 }}>{scale.toFixed(2)}×</span>
+        </label>
+        {compare && (
+          <label style={controlStyle}>
+            <input type="checkbox" checked={showNative} onChange={e => setShowNative(e.target.checked)} />
+            Native
+          </label>
+        )}
+        <button
+          style={{ fontSize: 12, padding: '2px 8px' }}
+          disabled={shift === 0 && scale === 1}
+          onClick={() => {
+            setShift(0);
+            setScale(1);
+          }}
+        >
+          Reset
+        </button>
+      </div>
+      <div style={{ height: 200, width: '100%' }}>
+        <Line<ComparisonPoint[]>
+          data={data}
+          options={options}
+          plugins={[deviationRegionsPlugin]}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default ComparisonGraph;
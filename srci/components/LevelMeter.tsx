@@ -0,0 +1,92 @@
+import React, { useEffect, useState } from 'react';
+import { InputLevelMeter } from '../services/InputLevelMeter';
+import { CLIP_LEVEL_DB, QUIET_PEAK_DB } from '../services/RecordingQuality';
+
+interface LevelMeterProps {
+  stream: MediaStream;
+}
+
+// Scale of the bar, in dBFS
+const METER_FLOOR_DB = -60;
+// The peak marker stays put this long, then falls
+const PEAK_HOLD_SECONDS = 1.5;
+const PEAK_FALL_DB_PER_SECOND = 20;
+// The clipping warning stays up this long after the last clipped window
+const CLIP_WARNING_SECONDS = 2;
+// The input counts as too quiet when no peak reached QUIET_PEAK_DB for this long
+const QUIET_WINDOW_SECONDS = 3;
+
+interface MeterState {
+  rmsDb: number;
+  heldPeakDb: number;
+  clipping: boolean;
+  quiet: boolean;
+}
+
+const toPercent = (db: number) =>
+  Math.max(0, Math.min(100, ((db - METER_FLOOR_DB) / -METER_FLOOR_DB) * 100));
+
+const barColor = (db: number) => (db > -3 ? '#d32f2f' : db > -12 ? '#f9a825' : '#388e3c');
+
+const LevelMeter: React.FC<LevelMeterProps> = ({ stream }) => {
+  const [meter, setMeter] = useState<MeterState | null>(null);
+
+  useEffect(() => {
+    const started = performance.now() / 1000;
+    let heldPeakDb = METER_FLOOR_DB;
+    let heldAt = started;
+    let lastClip = -Infinity;
+    let lastLoud = started;
+
+    const levelMeter = new InputLevelMeter(level => {
+      const now = performance.now() / 1000;
+      const fallen = heldPeakDb - Math.max(0, now - heldAt - PEAK_HOLD_SECONDS) * PEAK_FALL_DB_PER_SECOND;
+      if (level.peakDb >= fallen) {
+        heldPeakDb = level.peakDb;
+        heldAt = now;
+      }
+      if (level.peakDb >= CLIP_LEVEL_DB) lastClip = now;
+      if (level.peakDb >= QUIET_PEAK_DB) lastLoud = now;
+      setMeter({
+        rmsDb: level.rmsDb,
+        heldPeakDb: Math.max(level.peakDb, fallen),
+        clipping: now - lastClip < CLIP_WARNING_SECONDS,
+        quiet: now - lastLoud >= QUIET_WINDOW_SECONDS,
+      });
+    });
+    levelMeter.start(stream);
+    return () => levelMeter.stop();
+  }, [stream]);
+
+  const rmsDb = meter?.rmsDb ?? METER_FLOOR_DB;
+  const heldPeakDb = meter?.heldPeakDb ?? METER_FLOOR_DB;
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', alignItems: 'center', gap: 4, fontSize: 12 }}>
+      <div
+        title={`Level ${rmsDb.toFixed(0)} dBFS, peak ${heldPeakDb.toFixed(1)} dBFS`}
+        style={{ position: 'relative', width: 220, height: 10, background: '#eee', borderRadius: 2, overflow: 'hidden' }}
+      >
+        <div style={{ width: `${toPercent(rmsDb)}%`, height: '100%', background: barColor(rmsDb) }} />
+        <div
+          style={{
+            position: 'absolute',
+            top: 0,
+            left: `calc(${toPercent(heldPeakDb)}% - 1px)`,
+            width: 2,
+            height: '100%',
+            background: barColor(heldPeakDb),
+          }}
+        />
+      </div>
+      {meter?.clipping && (
+        <div style={{ color: '#d32f2f' }}>Clipping! Lower the input gain or move back from the microphone.</div>
+      )}
+      {meter?.quiet && !meter.clipping && (
+        <div style={{ color: '#f57c00' }}>Very quiet input. Move closer or raise the input gain for reliable pitch.</div>
+      )}
+    </div>
+  );
+};
+
+export default LevelMeter;
@@ -0,0 +1,175 @@
+import { Chart } from 'chart.js';
+import type { ChartTypeRegistry, Point, BubbleDataPoint } from 'chart.js';
+
+interface MoraDragState {
+  isDragging: boolean;
+  index: number | null;
+  visualBoundaries: number[];
+}
+
+export interface MoraDragControllerOptions {
+  chart: Chart<keyof ChartTypeRegistry, (number | [number, number] | Point | BubbleDataPoint | null)[], unknown> | null;
+  onBoundariesChange: ((boundaries: number[]) => void) | null;
+  boundaries: number[];
+  edgeThresholdPixels?: number;
+  onDragStart?: () => void;
+}
+
+// Height of the transcript row drawn at the bottom of the canvas, below the x axis labels
+export const MORA_TRACK_HEIGHT = 18;
+
+// Minimum mora length while dragging, in seconds
+const MIN_MORA_DURATION = 0.02;
+
+// Drags the mora boundaries of the transcript track, the same way DragController drags
+// loop edges. Boundaries can only be grabbed in the track row at the bottom of the canvas.
+export class MoraDragController {
+  private dragState: MoraDragState = {
+    isDragging: false,
+    index: null,
+    visualBoundaries: []
+  };
+
+  private chart: Chart<keyof ChartTypeRegistry, (number | [number, number] | Point | BubbleDataPoint | null)[], unknown> | null;
+  private onBoundariesChange: ((boundaries: number[]) => void) | null;
+  private boundaries: number[];
+  private edgeThresholdPixels: number;
+  private onDragStart?: () => void;
+
+  constructor(options: MoraDragControllerOptions) {
+    this.chart = options.chart;
+    this.onBoundariesChange = options.onBoundariesChange;
+    this.boundaries = [...options.boundaries];
+    this.edgeThresholdPixels = options.edgeThresholdPixels || 8;
+    this.dragState.visualBoundaries = [...options.boundaries];
+    this.onDragStart = options.onDragStart;
+  }
+
+  public updateValues(options: Partial<MoraDragControllerOptions>) {
+    if (options.chart !== undefined) this.chart = options.chart;
+    if (options.onBoundariesChange !== undefined) this.onBoundariesChange = options.onBoundariesChange;
+    if (options.boundaries !== undefined && !this.dragState.isDragging) {
+      this.boundaries = [...options.boundaries];
+      this.dragState.visualBoundaries = [...options.boundaries];
+    }
+    if (options.edgeThresholdPixels !== undefined) this.edgeThresholdPixels = options.edgeThresholdPixels;
+    if (options.onDragStart !== undefined) this.onDragStart = options.onDragStart;
+  }
+
+  public isDragging(): boolean {
+    return this.dragState.isDragging;
+  }
+
+  public getVisualBoundaries(): number[] {
+    return this.dragState.visualBoundaries;
+  }
+
+  private getCanvasCoordinates(event: MouseEvent | TouchEvent): { x: number; y: number } | null {
+    if (!this.chart?.canvas) return null;
+
+    const rect = this.chart.canvas.getBoundingClientRect();
+    const clientX = 'touches' in event ? event.touches[0].clientX : event.clientX;
+    const clientY = 'touches' in event ? event.touches[0].clientY : event.clientY;
+    return {
+      x: clientX - rect.left,
+      y: clientY - rect.top
+    };
+  }
+
+  private getNearestBoundary(canvasX: number): number | null {
+    if (!this.chart?.scales?.x) return null;
+
+    const xScale = this.chart.scales.x;
+    let nearest: number | null = null;
+    let nearestDistance = Infinity;
+    this.dragState.visualBoundaries.forEach((time, index) => {
+      const distance = Math.abs(xScale.getPixelForValue(time) - canvasX);
+      if (distance <= this.edgeThresholdPixels && distance < nearestDistance) {
+        nearest = index;
+        nearestDistance = distance;
+      }
+    });
+    return nearest;
+  }
+
+  private updateChart() {
+    if (!this.chart?.options?.plugins) return;
+    const moraTrack = this.chart.options.plugins.moraTrack;
+    if (moraTrack) {
+      this.chart.options.plugins.moraTrack = {
+        ...moraTrack,
+        boundaries: [...this.dragState.visualBoundaries]
+      };
+    }
+    this.chart.update('none');
+  }
+
+  public handleMouseDown = (event: MouseEvent | TouchEvent): boolean => {
+    if (!this.chart?.chartArea || this.dragState.visualBoundaries.length === 0) return false;
+
+    const coords = this.getCanvasCoordinates(event);
+    if (!coords) return false;
+
+    // Only the track row grabs boundaries, so loop edges keep working on the axis labels
+    if (coords.y < this.chart.height - MORA_TRACK_HEIGHT) return false;
+
+    const index = this.getNearestBoundary(coords.x);
+    if (index === null) return false;
+
+    event.preventDefault();
+    event.stopPropagation();
+
+    this.dragState = {
+      isDragging: true,
+      index,
+      visualBoundaries: [...this.dragState.visualBoundaries]
+    };
+
+    if (this.onDragStart) {
+      this.onDragStart();
+    }
+    return true;
+  };
+
+  public handleMouseMove = (event: MouseEvent | TouchEvent): void => {
+    if (!this.dragState.isDragging || this.dragState.index === null || !this.chart?.scales?.x) return;
+
+    event.preventDefault();
+    event.stopPropagation();
+
+    const coords = this.getCanvasCoordinates(event);
+    if (!coords) return;
+
+    const boundaries = this.dragState.visualBoundaries;
+    const index = this.dragState.index;
+    const value = this.chart.scales.x.getValueForPixel(coords.x) ?? boundaries[index];
+
+    // Keep the boundaries in order with a minimum mora length
+    const min = index > 0 ? boundaries[index - 1] + MIN_MORA_DURATION : 0;
+    const max = index < boundaries.length - 1 ? boundaries[index + 1] - MIN_MORA_DURATION : Infinity;
+    const newValue = Math.max(min, Math.min(max, value));
+
+    if (Math.abs(newValue - boundaries[index]) > 0.001) {
+      boundaries[index] = newValue;
+      this.updateChart();
+    }
+  };
+
+  public handleMouseUp = (event: MouseEvent | TouchEvent): void => {
+    if (!this.dragState.isDragging) return;
+
+    event.preventDefault();
+    event.stopPropagation();
+
+    this.boundaries = [...this.dragState.visualBoundaries];
+    this.dragState = {
+      isDragging: false,
+      index: null,
+      visualBoundaries: [...this.boundaries]
+    };
+
+    if (this.onBoundariesChange) {
+      this.onBoundariesChange([...this.boundaries]);
+    }
+  };
+}
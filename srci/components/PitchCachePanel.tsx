@@ -0,0 +1,83 @@
+import React, { useState } from 'react';
+import { PITCH_CACHE_QUOTA_OPTIONS_MB, loadPitchCacheQuotaMb, savePitchCacheQuotaMb } from '../services/PitchTrackCache';
+import type { PitchCacheUsage, PitchTrackCache } from '../services/PitchTrackCache';
+
+interface PitchCachePanelProps {
+  cache: PitchTrackCache;
+}
+
+const formatMb = (bytes: number) => `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+const PitchCachePanel: React.FC<PitchCachePanelProps> = ({ cache }) => {
+  const [usage, setUsage] = useState<PitchCacheUsage | null>(null);
+  const [quotaMb, setQuotaMb] = useState(loadPitchCacheQuotaMb);
+  const [error, setError] = useState<string | null>(null);
+
+  const refreshUsage = () => {
+    cache
+      .getUsage()
+      .then(result => {
+        setUsage(result);
+        setError(null);
+      })
+      .catch(err => {
+        console.warn('[PitchCachePanel] Could not read cache usage:', err);
+        setError('Pitch cache is not available in this browser.');
+      });
+  };
+
+  const handleQuotaChange = (value: number) => {
+    setQuotaMb(value);
+    savePitchCacheQuotaMb(value);
+    cache.setQuotaMb(value);
+    // Eviction runs in the background; show the result once it had a moment
+    setTimeout(refreshUsage, 500);
+  };
+
+  const handleClear = () => {
+    if (!window.confirm('Delete all cached pitch tracks? They will be recomputed when the files are opened again.')) return;
+    cache
+      .clear()
+      .then(refreshUsage)
+      .catch(err => console.warn('[PitchCachePanel] Could not clear cache:', err));
+  };
+
+  return (
+    <details
+      style={{ width: '100%', maxWidth: 400, margin: '0 auto 0.75rem auto', textAlign: 'left', fontSize: 13 }}
+      onToggle={e => {
+        if (e.currentTarget.open) refreshUsage();
+      }}
+    >
+      <summary style={{ cursor: 'pointer', color: '#1976d2' }}>Pitch cache</summary>
+      <div style={{ display: 'flex', flexDirection: 'column', gap: 6, padding: '8px 4px', fontSize: 12 }}>
+        {error ? (
+          <span style={{ color: '#d32f2f' }}>{error}</span>
+        ) : (
+          <span>
+            {usage
+              ? `${formatMb(usage.bytes)} used by ${usage.tracks} pitch track${usage.tracks === 1 ? '' : 's'}`
+              : 'Reading cache usage...'}
+          </span>
+        )}
+        <label style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: 8 }}>
+          <span>Size limit</span>
+          <select value={quotaMb} onChange={e => handleQuotaChange(Number(e.target.value))} style={{ fontSize: 12 }}>
+            {PITCH_CACHE_QUOTA_OPTIONS_MB.map(option => (
+              <option key={option} value={option}>{option} MB</option>
+            ))}
+          </select>
+        </label>
+        <button
+          style={{ fontSize: 12, padding: '2px 8px', alignSelf: 'flex-start' }}
+          disabled={!!error || usage?.tracks === 0}
+          onClick={handleClear}
+        >
+          Clear cache
+        </button>
+      </div>
+    </details>
+  );
+};
+
+export default PitchCachePanel;
@@ -13,6 +13,19 @@ import {
 } from 'chart.js';
 import type { Plugin, ChartTypeRegistry } from 'chart.js';
 import { DragController } from './DragController';
+import { MORA_TRACK_HEIGHT, MoraDragController } from './MoraDragController';
+import {
+  computePitchScaleReference,
+  convertPitch,
+  convertPitches,
+  formatPitchTick,
+  formatPitchValue,
+  getPitchScaleRange,
+  getPitchScaleStep,
+} from '../services/PitchScale';
+import type { PitchScaleMode, PitchScaleReference } from '../services/PitchScale';
+import type { AccentEstimate } from '../services/AccentClassifier';
+import type { TextGridTier } from '../services/PraatParser';
 
 // Add new type definitions for segment coloring
 interface SegmentContext {
@@ -41,6 +54,40 @@ interface LoopOverlayOptions {
   isUserRecording?: boolean;
 }
 
+interface AccentOverlayOptions {
+  estimate?: AccentEstimate | null;
+  morae?: string[];
+}
+
+interface MoraTrackOptions {
+  morae?: string[];
+  boundaries?: number[];
+}
+
+interface AnnotationOverlayOptions {
+  tiers?: TextGridTier[];
+}
+
+interface GhostContourOptions {
+  times?: number[];
+  // Already in display units
+  values?: (number | null)[];
+}
+
+interface LevelLayersOptions {
+  times?: number[];
+  amplitude?: number[];
+  intensity?: number[];
+}
+
+// Share of the plot height, at the bottom, used by the waveform and intensity layers
+const LEVEL_BAND_RATIO = 0.3;
+// Intensity mapped onto the band: this level at the bottom, full scale at the top
+const INTENSITY_FLOOR_DB = -60;
+
+// Height of each annotation tier band, stacked up from the bottom of the plot
+const ANNOTATION_TIER_HEIGHT = 14;
+
 // Extend Chart.js types to include our plugins and custom properties
 declare module 'chart.js' {
   // eslint-disable-next-line @typescript-eslint/no-unused-vars
@@ -48,6 +95,11 @@ declare module 'chart.js' {
     loopOverlay?: LoopOverlayOptions;
     playbackIndicator?: { playbackTime?: number };
     marginIndicator?: { showLeftMargin?: boolean; showRightMargin?: boolean };
+    accentOverlay?: AccentOverlayOptions;
+    moraTrack?: MoraTrackOptions;
+    annotationOverlay?: AnnotationOverlayOptions;
+    ghostContour?: GhostContourOptions;
+    levelLayers?: LevelLayersOptions;
   }
   
   // Add custom properties we attach to the chart instance
@@ -60,6 +112,7 @@ declare module 'chart.js' {
 export interface PitchGraphWithControlsProps {
   times: number[];
   pitches: (number | null)[];
+  confidence?: number[]; // Per-point confidence (0-1); low-confidence points are drawn dashed
   label?: string;
   color?: string;
   loopStart?: number;
@@ -83,6 +136,15 @@ export interface PitchGraphWithControlsProps {
     };
   };
   isJumpingToPlayback?: boolean;
+  yAxisMode?: PitchScaleMode; // Hz, semitones re speaker median, or z-scored log F0
+  scaleReference?: PitchScaleReference | null; // Speaker statistics; computed from `pitches` if omitted
+  accentEstimate?: AccentEstimate | null; // Estimated pitch-accent pattern to overlay
+  morae?: string[]; // Kana of each mora, drawn under the H/L marks
+  moraTrack?: { morae: string[]; boundaries: number[] } | null; // Transcript row below the x axis
+  onMoraBoundariesChange?: (boundaries: number[]) => void;
+  annotations?: TextGridTier[] | null; // Praat TextGrid tiers drawn as labelled bands
+  ghostContour?: { times: number[]; pitches: (number | null)[] } | null; // Faint reference curve behind the pitch
+  levelLayers?: { times: number[]; amplitude?: number[]; intensity?: number[] } | null; // Waveform envelope and intensity beneath the curve
 }
 
 export type PitchGraphChartRef = Chart<'line', (number | null)[], number> | null;
@@ -96,6 +158,7 @@ const PitchGraphWithControls = (props: PitchGraphWithControlsProps) => {
   const {
     times,
     pitches,
+    confidence,
     label = 'Pitch (Hz)',
     color = '#1976d2',
     loopStart,
@@ -110,7 +173,31 @@ const PitchGraphWithControls = (props: PitchGraphWithControlsProps) => {
     isUserRecording = false,
     yAxisConfig,
     isJumpingToPlayback = false,
+    yAxisMode = 'hz',
+    scaleReference,
+    accentEstimate = null,
+    morae,
+    moraTrack = null,
+    onMoraBoundariesChange,
+    annotations = null,
+    ghostContour = null,
+    levelLayers = null,
   } = props;
+
+  // Speaker statistics for the normalised modes, and the curve in display units
+  const effectiveReference = useMemo(
+    () => scaleReference ?? computePitchScaleReference(pitches),
+    [scaleReference, pitches]
+  );
+  const displayPitches = useMemo(
+    () => convertPitches(pitches, yAxisMode, effectiveReference),
+    [pitches, yAxisMode, effectiveReference]
+  );
+  // The ghost is normalised against its own speaker, like the comparison chart does
+  const ghostValues = useMemo(
+    () => (ghostContour ? convertPitches(ghostContour.pitches, yAxisMode, computePitchScaleReference(ghostContour.pitches)) : []),
+    [ghostContour, yAxisMode]
+  );
   
   const chartRef = useRef<Chart<'line', (number | null)[], number> | null>(null);
   const canvasRef = useRef<HTMLCanvasElement | null>(null);
@@ -119,6 +206,11 @@ const PitchGraphWithControls = (props: PitchGraphWithControlsProps) => {
   
   // Create a ref for the drag controller
   const dragControllerRef = useRef<DragController | null>(null);
+  const moraDragControllerRef = useRef<MoraDragController | null>(null);
+
+  // True while a loop edge or a mora boundary is being dragged
+  const isDraggingHandle = () =>
+    !!dragControllerRef.current?.isDragging() || !!moraDragControllerRef.current?.isDragging();
 
   // Add a ref to preserve the loop region independently of chart state
   const preservedLoopRef = useRef<{ start: number; end: number }>({ 
@@ -228,6 +320,10 @@ const PitchGraphWithControls = (props: PitchGraphWithControlsProps) => {
         title: { display: false },
         tooltip: { 
           enabled: !isMobile,
+          callbacks: {
+            label: (ctx: { parsed: { y: number | null } }) =>
+              ctx.parsed.y === null ? '' : `${label}: ${formatPitchValue(ctx.parsed.y, yAxisMode)}`,
+          },
         },
         loopOverlay: { 
           // Only set loop values if not a user recording
@@ -240,6 +336,26 @@ const PitchGraphWithControls = (props: PitchGraphWithControlsProps) => {
           showLeftMargin,
           showRightMargin
         },
+        accentOverlay: {
+          estimate: accentEstimate,
+          morae
+        },
+        moraTrack: {
+          morae: moraTrack?.morae ?? [],
+          boundaries: moraTrack?.boundaries ?? []
+        },
+        annotationOverlay: {
+          tiers: annotations ?? []
+        },
+        ghostContour: {
+          times: ghostContour?.times ?? [],
+          values: ghostValues
+        },
+        levelLayers: {
+          times: levelLayers?.times ?? [],
+          amplitude: levelLayers?.amplitude ?? [],
+          intensity: levelLayers?.intensity ?? []
+        },
       },
       scales: {
         x: {
@@ -259,15 +375,16 @@ const PitchGraphWithControls = (props: PitchGraphWithControlsProps) => {
           title: { display: false },
           ticks: { 
             font: { size: 10 },
-            // Apply custom ticks configuration if provided
-            ...(yAxisConfig?.ticks || {})
+            // Custom ticks configuration is in Hz, so it only applies to the Hz mode
+            ...(yAxisMode === 'hz' ? (yAxisConfig?.ticks || {}) : { stepSize: getPitchScaleStep(yAxisMode) }),
+            callback: (value: number | string) => formatPitchTick(Number(value), yAxisMode),
           },
           min: yRange[0],
           max: yRange[1],
           // Apply other y-axis configurations if provided
           beginAtZero: yAxisConfig?.beginAtZero,
-          suggestedMin: yAxisConfig?.suggestedMin,
-          suggestedMax: yAxisConfig?.suggestedMax,
+          suggestedMin: yAxisMode === 'hz' ? yAxisConfig?.suggestedMin : undefined,
+          suggestedMax: yAxisMode === 'hz' ? yAxisConfig?.suggestedMax : undefined,
           grid: {
           },
         },
@@ -279,7 +396,7 @@ const PitchGraphWithControls = (props: PitchGraphWithControlsProps) => {
         },
       },
     });
-  }, [xMax, yRange, loopStart, loopEnd, showLeftMargin, showRightMargin, zoomStateRef.current.min, zoomStateRef.current.max, isMobile, totalDataRange.max, yAxisConfig, isUserRecording]);
+  }, [xMax, yRange, loopStart, loopEnd, showLeftMargin, showRightMargin, zoomStateRef.current.min, zoomStateRef.current.max, isMobile, totalDataRange.max, yAxisConfig, isUserRecording, yAxisMode, label, accentEstimate, morae, moraTrack, annotations, ghostContour, ghostValues, levelLayers]);
 
   // Add effect to ensure loop region is properly reflected in chart options
   useEffect(() => {
@@ -301,6 +418,11 @@ const PitchGraphWithControls = (props: PitchGraphWithControlsProps) => {
     }
   }, [loopStart, loopEnd, isUserRecording]);
 
+  // Latest transcript props for a newly created mora drag controller; later changes reach it
+  // through updateValues below
+  const moraDragValuesRef = useRef({ boundaries: moraTrack?.boundaries ?? [], onBoundariesChange: onMoraBoundariesChange ?? null });
+  moraDragValuesRef.current = { boundaries: moraTrack?.boundaries ?? [], onBoundariesChange: onMoraBoundariesChange ?? null };
+
   // Initialize drag controller when chart is ready
   useEffect(() => {
     if (chartRef.current && onLoopChange) {
@@ -335,9 +457,27 @@ const PitchGraphWithControls = (props: PitchGraphWithControlsProps) => {
           lastMouseXRef.current = null;
         }
       });
+
+      moraDragControllerRef.current = new MoraDragController({
+        chart: chartRef.current,
+        ...moraDragValuesRef.current,
+        onDragStart: () => {
+          isPanningRef.current = false;
+          isZoomingRef.current = false;
+          lastMouseXRef.current = null;
+        }
+      });
     }
   }, [chartRef.current]);
 
+  // Keep the mora drag controller in sync with the transcript
+  useEffect(() => {
+    moraDragControllerRef.current?.updateValues({
+      boundaries: moraTrack?.boundaries ?? [],
+      onBoundariesChange: onMoraBoundariesChange ?? null
+    });
+  }, [moraTrack, onMoraBoundariesChange]);
+
   // Update drag controller values when props change
   useEffect(() => {
     if (dragControllerRef.current) {
@@ -445,6 +585,14 @@ const PitchGraphWithControls = (props: PitchGraphWithControlsProps) => {
   }, [chartRef.current, onChartReady]);
 
   useEffect(() => {
+    // The normalised modes get their own fixed range, expanded to fit the data
+    if (yAxisMode !== 'hz') {
+      const range = getPitchScaleRange(displayPitches, yAxisMode);
+      console.log(`[PitchGraph] Setting ${yAxisMode} y-axis range:`, range);
+      setYRange(range);
+      return;
+    }
+
     // Always use a fixed range of 50-500 Hz, only expanding if values exceed it
     // Ignore yFit from props for consistent display
     const validPitches = pitches.filter((p) => p !== null) as number[];
@@ -474,7 +622,7 @@ const PitchGraphWithControls = (props: PitchGraphWithControlsProps) => {
       console.log('[PitchGraph] No valid pitches, using default range: [50, 500]', { yFitIgnored: yFit });
       setYRange([50, 500]);
     }
-  }, [pitches]); // Removed yFit from dependencies to prevent it from triggering updates
+  }, [pitches, displayPitches, yAxisMode]); // Removed yFit from dependencies to prevent it from triggering updates
 
   // Add an effect to enforce y-axis range (ignoring yFit)
   useEffect(() => {
@@ -656,7 +804,7 @@ const PitchGraphWithControls = (props: PitchGraphWithControlsProps) => {
   // Modify handleWheel to remove artificial view range limits for user recordings
   const handleWheel = (e: WheelEvent) => {
     const chart = chartRef.current;
-    if (!chart || dragControllerRef.current?.isDragging()) return;
+    if (!chart || isDraggingHandle()) return;
 
     e.preventDefault();
     isUserInteractingRef.current = true;
@@ -759,7 +907,7 @@ const PitchGraphWithControls = (props: PitchGraphWithControlsProps) => {
   // Modify handleMouseMove for panning
   const handleMouseMove = (e: MouseEvent) => {
     const chart = chartRef.current;
-    if (!chart || !lastMouseXRef.current || !isPanningRef.current || dragControllerRef.current?.isDragging()) return;
+    if (!chart || !lastMouseXRef.current || !isPanningRef.current || isDraggingHandle()) return;
 
     // Get loop values from our ref, not from the chart
     const currentLoopStart = preservedLoopRef.current.start;
@@ -835,7 +983,7 @@ const PitchGraphWithControls = (props: PitchGraphWithControlsProps) => {
   };
 
   const handleMouseDown = (e: MouseEvent) => {
-    if (e.button === 0 && !dragControllerRef.current?.isDragging()) { // Left click only
+    if (e.button === 0 && !isDraggingHandle()) { // Left click only
         // Check if we're fully zoomed out before allowing pan to start
         const currentRange = zoomStateRef.current.max - zoomStateRef.current.min;
         const maxRange = actualTotalRangeRef.current;
@@ -872,7 +1020,7 @@ const PitchGraphWithControls = (props: PitchGraphWithControlsProps) => {
 
   // Improve touchStart to better handle pinch-to-zoom
   const handleTouchStart = (e: TouchEvent) => {
-    if (dragControllerRef.current?.isDragging()) return;
+    if (isDraggingHandle()) return;
     
     // Set user interaction flag to prevent view resets during touch interactions
     isUserInteractingRef.current = true;
@@ -961,7 +1109,7 @@ const PitchGraphWithControls = (props: PitchGraphWithControlsProps) => {
   // Improve touchMove to handle pinch zoom more reliably
   const handleTouchMove = (e: TouchEvent) => {
     const chart = chartRef.current;
-    if (!chart || dragControllerRef.current?.isDragging()) return;
+    if (!chart || isDraggingHandle()) return;
     
     // SAFETY CHECK: Validate the current view range at the start of touch moves
     // This catches cases where the view somehow gets reset between touch events
@@ -1263,26 +1411,31 @@ const PitchGraphWithControls = (props: PitchGraphWithControlsProps) => {
   const chartData = useMemo(() => {
     // Create a modified version of pitch data that has interpolated values over gaps
     // This will create a smooth curve with color changes
-    const smoothedData: (number | null)[] = [...pitches];
+    const smoothedData: (number | null)[] = [...displayPitches];
     
     // Define a minimum threshold for voiced speech - frequencies below this are likely unvoiced
     const VOICED_THRESHOLD = 85; // Hz - typical minimum for human voice
+
+    // Points the octave correction was unsure about are drawn like unvoiced ones
+    const MIN_CONFIDENCE = 0.35;
     
     // Create an array to track which segments are actually voiced
     // Both null values AND values below threshold are considered unvoiced
-    const isVoiced = pitches.map(p => p !== null && p > VOICED_THRESHOLD);
+    const hasPitch = pitches.map(p => p !== null && p > VOICED_THRESHOLD);
+    // Low-confidence points keep their value but are styled as unvoiced
+    const isVoiced = hasPitch.map((voiced, i) => voiced && (!confidence || (confidence[i] ?? 0) >= MIN_CONFIDENCE));
     
     // Find gaps between voiced sections and interpolate values across them
     for (let i = 0; i < pitches.length; i++) {
       // If the current point is null or below threshold but we need a value for display
-      if (!isVoiced[i]) {
+      if (!hasPitch[i]) {
         // Look for previous voiced segment
         let prevVoicedIdx = -1;
         let prevVoicedValue = null;
         for (let j = i - 1; j >= 0; j--) {
-          if (isVoiced[j]) {
+          if (hasPitch[j]) {
             prevVoicedIdx = j;
-            prevVoicedValue = pitches[j];
+            prevVoicedValue = displayPitches[j];
             break;
           }
         }
@@ -1291,9 +1444,9 @@ const PitchGraphWithControls = (props: PitchGraphWithControlsProps) => {
         let nextVoicedIdx = -1;
         let nextVoicedValue = null;
         for (let j = i + 1; j < pitches.length; j++) {
-          if (isVoiced[j]) {
+          if (hasPitch[j]) {
             nextVoicedIdx = j;
-            nextVoicedValue = pitches[j];
+            nextVoicedValue = displayPitches[j];
             break;
           }
         }
@@ -1314,7 +1467,7 @@ const PitchGraphWithControls = (props: PitchGraphWithControlsProps) => {
         }
         // If no voiced segments found, use a fallback value
         else {
-          smoothedData[i] = VOICED_THRESHOLD; // Default to threshold value 
+          smoothedData[i] = convertPitch(VOICED_THRESHOLD, yAxisMode, effectiveReference); // Default to threshold value 
         }
       }
     }
@@ -1345,7 +1498,7 @@ const PitchGraphWithControls = (props: PitchGraphWithControlsProps) => {
         },
       ],
     };
-  }, [times, pitches, color, label]);
+  }, [times, pitches, displayPitches, confidence, color, label, yAxisMode, effectiveReference]);
 
   // Create custom segment coloring plugin to handle different colors for voiced/unvoiced segments
   const segmentColoringPlugin: Plugin<'line'> = {
@@ -1528,6 +1681,307 @@ const PitchGraphWithControls = (props: PitchGraphWithControlsProps) => {
     }
   };
 
+  // Overlay for the estimated accent pattern: mora boundaries, H/L levels, the downstep
+  // position and the pattern label
+  const accentOverlayPlugin: Plugin<'line'> = {
+    id: 'accentOverlay',
+    afterDatasetsDraw: (chart: Chart) => {
+      const overlay = chart.options.plugins?.accentOverlay;
+      const estimate = overlay?.estimate as AccentEstimate | null | undefined;
+      if (!estimate) return;
+
+      const xScale = chart.scales.x;
+      const area = chart.chartArea;
+      if (!xScale || !area) return;
+
+      const ctx = chart.ctx;
+      const boundaries = estimate.moraBoundaries;
+      const toPixel = (time: number) => xScale.getPixelForValue(time);
+
+      ctx.save();
+      ctx.beginPath();
+      ctx.rect(area.left, area.top, area.right - area.left, area.bottom - area.top);
+      ctx.clip();
+
+      // Mora boundaries
+      ctx.strokeStyle = 'rgba(0, 0, 0, 0.25)';
+      ctx.lineWidth = 1;
+      ctx.setLineDash([2, 3]);
+      for (const time of boundaries) {
+        const x = toPixel(time);
+        ctx.beginPath();
+        ctx.moveTo(x, area.top + 16);
+        ctx.lineTo(x, area.bottom);
+        ctx.stroke();
+      }
+      ctx.setLineDash([]);
+
+      // H/L per mora, with the kana underneath when known
+      ctx.textAlign = 'center';
+      ctx.font = 'bold 10px sans-serif';
+      estimate.template.forEach((level, i) => {
+        const x = (toPixel(boundaries[i]) + toPixel(boundaries[i + 1])) / 2;
+        ctx.fillStyle = level ? '#d32f2f' : '#546e7a';
+        ctx.fillText(level ? 'H' : 'L', x, area.top + 26);
+        const kana = overlay?.morae?.[i];
+        if (kana) {
+          ctx.fillStyle = '#333';
+          ctx.font = '10px sans-serif';
+          ctx.fillText(kana, x, area.top + 38);
+          ctx.font = 'bold 10px sans-serif';
+        }
+      });
+
+      // Downstep marker after the accented mora
+      if (estimate.nucleus > 0 && estimate.nucleus < boundaries.length) {
+        const x = toPixel(boundaries[estimate.nucleus]);
+        ctx.fillStyle = '#d32f2f';
+        ctx.beginPath();
+        ctx.moveTo(x - 5, area.top + 14);
+        ctx.lineTo(x + 5, area.top + 14);
+        ctx.lineTo(x, area.top + 21);
+        ctx.closePath();
+        ctx.fill();
+      }
+
+      // Pattern label
+      const text = `Accent: ${estimate.label} (${Math.round(estimate.confidence * 100)}%)`;
+      ctx.font = 'bold 11px sans-serif';
+      ctx.textAlign = 'left';
+      const width = ctx.measureText(text).width + 8;
+      ctx.fillStyle = 'rgba(255, 255, 255, 0.85)';
+      ctx.fillRect(area.left + 4, area.top + 2, width, 15);
+      ctx.fillStyle = '#333';
+      ctx.fillText(text, area.left + 8, area.top + 13);
+
+      ctx.restore();
+    }
+  };
+
+  // Kana transcript row below the x axis, one label per mora between its boundaries
+  const moraTrackPlugin: Plugin<'line'> = {
+    id: 'moraTrack',
+    afterDraw: (chart: Chart) => {
+      const track = chart.options.plugins?.moraTrack;
+      const morae = (track?.morae ?? []) as string[];
+      // Options can be reset by a re-render mid-drag, so prefer the controller's values then
+      const moraDragController = moraDragControllerRef.current;
+      const isDragging = !!moraDragController?.isDragging();
+      const boundaries = isDragging && moraDragController
+        ? moraDragController.getVisualBoundaries()
+        : (track?.boundaries ?? []) as number[];
+      if (morae.length === 0 || boundaries.length !== morae.length + 1) return;
+
+      const xScale = chart.scales.x;
+      const area = chart.chartArea;
+      if (!xScale || !area) return;
+
+      const ctx = chart.ctx;
+      const top = chart.height - MORA_TRACK_HEIGHT;
+      const bottom = chart.height;
+
+      ctx.save();
+      ctx.beginPath();
+      ctx.rect(area.left, top, area.right - area.left, MORA_TRACK_HEIGHT);
+      ctx.clip();
+
+      ctx.fillStyle = 'rgba(25, 118, 210, 0.06)';
+      ctx.fillRect(xScale.getPixelForValue(boundaries[0]), top, xScale.getPixelForValue(boundaries[boundaries.length - 1]) - xScale.getPixelForValue(boundaries[0]), MORA_TRACK_HEIGHT);
+
+      // Boundary handles
+      ctx.strokeStyle = '#1976d2';
+      ctx.lineWidth = isDragging ? 2 : 1;
+      for (const time of boundaries) {
+        const x = xScale.getPixelForValue(time);
+        ctx.beginPath();
+        ctx.moveTo(x, top);
+        ctx.lineTo(x, bottom);
+        ctx.stroke();
+      }
+
+      ctx.fillStyle = '#333';
+      ctx.font = '11px sans-serif';
+      ctx.textAlign = 'center';
+      ctx.textBaseline = 'middle';
+      morae.forEach((mora, i) => {
+        const x = (xScale.getPixelForValue(boundaries[i]) + xScale.getPixelForValue(boundaries[i + 1])) / 2;
+        ctx.fillText(mora, x, top + MORA_TRACK_HEIGHT / 2);
+      });
+
+      ctx.restore();
+    }
+  };
+
+  // Waveform envelope and intensity curve in a band along the bottom of the plot, to show
+  // where syllables start and where vowels are devoiced
+  const levelLayersPlugin: Plugin<'line'> = {
+    id: 'levelLayers',
+    beforeDatasetsDraw: (chart: Chart) => {
+      const times = (chart.options.plugins?.levelLayers?.times ?? []) as number[];
+      const amplitude = (chart.options.plugins?.levelLayers?.amplitude ?? []) as number[];
+      const intensity = (chart.options.plugins?.levelLayers?.intensity ?? []) as number[];
+      const xScale = chart.scales.x;
+      const area = chart.chartArea;
+      if (times.length === 0 || !xScale || !area) return;
+
+      const bandHeight = (area.bottom - area.top) * LEVEL_BAND_RATIO;
+      const bandTop = area.bottom - bandHeight;
+      const ctx = chart.ctx;
+      ctx.save();
+      ctx.beginPath();
+      ctx.rect(area.left, area.top, area.right - area.left, area.bottom - area.top);
+      ctx.clip();
+
+      // Envelope mirrored around the middle of the band
+      if (amplitude.length === times.length) {
+        const middle = bandTop + bandHeight / 2;
+        ctx.fillStyle = 'rgba(120, 120, 120, 0.3)';
+        ctx.beginPath();
+        times.forEach((time, i) => {
+          const x = xScale.getPixelForValue(time);
+          const y = middle - (Math.min(1, amplitude[i]) * bandHeight) / 2;
+          if (i === 0) ctx.moveTo(x, y);
+          else ctx.lineTo(x, y);
+        });
+        for (let i = times.length - 1; i >= 0; i--) {
+          ctx.lineTo(xScale.getPixelForValue(times[i]), middle + (Math.min(1, amplitude[i]) * bandHeight) / 2);
+        }
+        ctx.closePath();
+        ctx.fill();
+      }
+
+      if (intensity.length === times.length) {
+        ctx.strokeStyle = 'rgba(245, 124, 0, 0.8)';
+        ctx.lineWidth = 1.5;
+        ctx.lineJoin = 'round';
+        ctx.beginPath();
+        times.forEach((time, i) => {
+          const level = Math.max(0, Math.min(1, (intensity[i] - INTENSITY_FLOOR_DB) / -INTENSITY_FLOOR_DB));
+          const x = xScale.getPixelForValue(time);
+          const y = area.bottom - level * bandHeight;
+          if (i === 0) ctx.moveTo(x, y);
+          else ctx.lineTo(x, y);
+        });
+        ctx.stroke();
+      }
+      ctx.restore();
+    }
+  };
+
+  // Reference contour (e.g. the native loop while recording) drawn faintly behind the curve
+  const ghostContourPlugin: Plugin<'line'> = {
+    id: 'ghostContour',
+    beforeDatasetsDraw: (chart: Chart) => {
+      const times = (chart.options.plugins?.ghostContour?.times ?? []) as number[];
+      const values = (chart.options.plugins?.ghostContour?.values ?? []) as (number | null)[];
+      const xScale = chart.scales.x;
+      const yScale = chart.scales.y;
+      const area = chart.chartArea;
+      if (times.length === 0 || !xScale || !yScale || !area) return;
+
+      const ctx = chart.ctx;
+      ctx.save();
+      ctx.beginPath();
+      ctx.rect(area.left, area.top, area.right - area.left, area.bottom - area.top);
+      ctx.clip();
+      ctx.strokeStyle = 'rgba(56, 142, 60, 0.35)';
+      ctx.lineWidth = 4;
+      ctx.lineJoin = 'round';
+      ctx.beginPath();
+      let drawing = false;
+      times.forEach((time, i) => {
+        const value = values[i];
+        // Unvoiced frames break the line
+        if (value === null) {
+          drawing = false;
+          return;
+        }
+        const x = xScale.getPixelForValue(time);
+        const y = yScale.getPixelForValue(value);
+        if (drawing) ctx.lineTo(x, y);
+        else ctx.moveTo(x, y);
+        drawing = true;
+      });
+      ctx.stroke();
+      ctx.restore();
+    }
+  };
+
+  // TextGrid tiers as bands along the bottom of the plot: interval labels between their
+  // boundaries, point tiers as a tick with the mark next to it
+  const annotationOverlayPlugin: Plugin<'line'> = {
+    id: 'annotationOverlay',
+    afterDatasetsDraw: (chart: Chart) => {
+      const tiers = (chart.options.plugins?.annotationOverlay?.tiers ?? []) as TextGridTier[];
+      if (tiers.length === 0) return;
+
+      const xScale = chart.scales.x;
+      const area = chart.chartArea;
+      if (!xScale || !area) return;
+
+      const ctx = chart.ctx;
+      const toPixel = (time: number) => xScale.getPixelForValue(time);
+
+      ctx.save();
+      ctx.beginPath();
+      ctx.rect(area.left, area.top, area.right - area.left, area.bottom - area.top);
+      ctx.clip();
+      ctx.font = '10px sans-serif';
+      ctx.textBaseline = 'middle';
+
+      tiers.forEach((tier, t) => {
+        const top = area.bottom - (tiers.length - t) * ANNOTATION_TIER_HEIGHT;
+        const middle = top + ANNOTATION_TIER_HEIGHT / 2;
+        ctx.fillStyle = t % 2 === 0 ? 'rgba(121, 85, 72, 0.08)' : 'rgba(121, 85, 72, 0.14)';
+        ctx.fillRect(area.left, top, area.right - area.left, ANNOTATION_TIER_HEIGHT);
+
+        ctx.strokeStyle = 'rgba(121, 85, 72, 0.6)';
+        ctx.lineWidth = 1;
+        if (tier.type === 'interval') {
+          for (const interval of tier.intervals) {
+            if (!interval.text) continue;
+            const x1 = toPixel(interval.start);
+            const x2 = toPixel(interval.end);
+            if (x2 < area.left || x1 > area.right) continue;
+            ctx.beginPath();
+            ctx.moveTo(x1, top);
+            ctx.lineTo(x1, top + ANNOTATION_TIER_HEIGHT);
+            ctx.moveTo(x2, top);
+            ctx.lineTo(x2, top + ANNOTATION_TIER_HEIGHT);
+            ctx.stroke();
+            // Only label intervals wide enough to read
+            if (x2 - x1 > 12) {
+              ctx.fillStyle = '#4e342e';
+              ctx.textAlign = 'center';
+              ctx.fillText(interval.text, (Math.max(x1, area.left) + Math.min(x2, area.right)) / 2, middle, x2 - x1 - 4);
+            }
+          }
+        } else {
+          for (const point of tier.points) {
+            const x = toPixel(point.time);
+            if (x < area.left || x > area.right) continue;
+            ctx.beginPath();
+            ctx.moveTo(x, area.top);
+            ctx.lineTo(x, top + ANNOTATION_TIER_HEIGHT);
+            ctx.setLineDash([2, 3]);
+            ctx.stroke();
+            ctx.setLineDash([]);
+            ctx.fillStyle = '#4e342e';
+            ctx.textAlign = 'left';
+            ctx.fillText(point.mark, x + 2, middle);
+          }
+        }
+
+        // Tier name at the left edge
+        ctx.fillStyle = 'rgba(78, 52, 46, 0.6)';
+        ctx.textAlign = 'left';
+        ctx.fillText(tier.name, area.left + 2, middle);
+      });
+
+      ctx.restore();
+    }
+  };
+
   // Playback indicator plugin
   const playbackIndicatorPlugin: Plugin<'line'> = {
     id: 'playbackIndicator',
@@ -1579,6 +2033,7 @@ const PitchGraphWithControls = (props: PitchGraphWithControlsProps) => {
   useEffect(() => {
     const canvas = canvasRef.current;
     const dragController = dragControllerRef.current;
+    const moraDragController = moraDragControllerRef.current;
     if (!canvas || !dragController) return;
     
     // Store mouse event data for pan handler
@@ -1600,14 +2055,24 @@ const PitchGraphWithControls = (props: PitchGraphWithControlsProps) => {
         y, 
         ctrlKey: 'ctrlKey' in e ? e.ctrlKey : false 
       }));
+      if (moraDragController?.isDragging()) {
+        moraDragController.handleMouseMove(e);
+        return;
+      }
       dragController.handleMouseMove(e);
     };
     
-    const handleMouseDown = (e: MouseEvent | TouchEvent) => dragController.handleMouseDown(e);
+    // Mora boundaries sit in their own row below the plot, so try them first
+    const handleMouseDown = (e: MouseEvent | TouchEvent) =>
+      moraDragController?.handleMouseDown(e) || dragController.handleMouseDown(e);
     const handleMouseUp = (e: MouseEvent | TouchEvent) => {
       canvas.removeAttribute('data-last-event');
       setShowLeftMargin(false);
       setShowRightMargin(false);
+      if (moraDragController?.isDragging()) {
+        moraDragController.handleMouseUp(e);
+        return;
+      }
       dragController.handleMouseUp(e);
     };
     
@@ -1631,7 +2096,7 @@ const PitchGraphWithControls = (props: PitchGraphWithControlsProps) => {
       window.removeEventListener('mouseleave', handleMouseUp, { capture: true });
       window.removeEventListener('touchcancel', handleMouseUp, { capture: true });
     };
-  }, [canvasRef.current, dragControllerRef.current]);
+  }, [canvasRef.current, dragControllerRef.current, moraDragControllerRef.current]);
 
   // Update playback time without recalculating options
   useEffect(() => {
@@ -1928,7 +2393,7 @@ const PitchGraphWithControls = (props: PitchGraphWithControlsProps) => {
                 left: 0,
                 right: 30, // Keep right padding for loop handles
                 top: 0,
-                bottom: 0
+                bottom: moraTrack ? MORA_TRACK_HEIGHT : 0
               }
             },
             // Make the chart use more vertical space
@@ -1977,6 +2442,11 @@ const PitchGraphWithControls = (props: PitchGraphWithControlsProps) => {
             playbackIndicatorPlugin, 
             marginIndicatorPlugin,
             segmentColoringPlugin,
+            accentOverlayPlugin,
+            moraTrackPlugin,
+            annotationOverlayPlugin,
+            levelLayersPlugin,
+            ghostContourPlugin,
             {
               id: 'gradientOverlay',
               afterDraw: (chart) => {
@@ -1,13 +1,54 @@
-import React, { useRef, useState, useEffect } from 'react';
+import React, { useRef, useState, useEffect, useImperativeHandle } from 'react';
 import Button from '@mui/material/Button';
+import LevelMeter from './LevelMeter';
+import { VoiceTrigger } from '../services/VoiceTrigger';
+import { cropRecording } from '../services/VoiceActivity';
+import {
+  CAPTURE_FORMATS,
+  PCM_SAMPLE_RATE_OPTIONS,
+  PcmRecorder,
+  isPcmCaptureSupported,
+  loadCaptureSettings,
+  saveCaptureSettings,
+} from '../services/PcmRecorder';
+import type { CaptureFormat, CaptureSettings } from '../services/PcmRecorder';
+
+export interface RecordingOptions {
+  // Echo cancellation on and auto gain off, for recording while the native audio plays
+  headphoneSafe?: boolean;
+}
+
+// Lets the parent drive the recorder, e.g. for shadowing cycles
+export interface RecorderHandle {
+  // Resolves to false if the microphone could not be opened
+  startRecording: (options?: RecordingOptions) => Promise<boolean>;
+  stopRecording: () => void;
+}
 
 interface RecorderProps {
   onRecordingComplete?: (audioUrl: string, audioBlob: Blob) => void;
   audioUrl?: string | null;
   audioRef?: React.RefObject<HTMLAudioElement | null>;
+  controlRef?: React.Ref<RecorderHandle>;
+  // Microphone stream while recording, null once it has been released
+  onStreamChange?: (stream: MediaStream | null) => void;
   showPlayer?: boolean;
 }
 
+type RecorderStatus = 'idle' | 'armed' | 'recording' | 'stopped';
+
+// A running recording, from either MediaRecorder or the WAV capture
+interface Capture {
+  isRecording: () => boolean;
+  stop: () => void;
+}
+
+// Hands-free mode: audio kept from before the detected speech onset
+const PRE_ROLL_SECONDS = 0.3;
+// Restart the armed recorder after this long without speech, so it does not grow unbounded
+const MAX_ARMED_IDLE_SECONDS = 30;
+const SILENCE_DURATION_OPTIONS = [0.5, 0.8, 1.2, 2];
+
 function isMobile() {
   return /Mobi|Android|iPhone|iPad|iPod|Opera Mini|IEMobile|WPDesktop/i.test(navigator.userAgent);
 }
@@ -28,9 +69,23 @@ const getSupportedMimeType = () => {
   return '';
 };
 
-const Recorder: React.FC<RecorderProps> = ({ onRecordingComplete, audioUrl, audioRef, showPlayer = true }) => {
-  const mediaRecorderRef = useRef<MediaRecorder | null>(null);
-  const [status, setStatus] = useState<'idle' | 'recording' | 'stopped'>('idle');
+const Recorder: React.FC<RecorderProps> = ({
+  onRecordingComplete,
+  audioUrl,
+  audioRef,
+  controlRef,
+  onStreamChange,
+  showPlayer = true,
+}) => {
+  const captureRef = useRef<Capture | null>(null);
+  const [status, setStatus] = useState<RecorderStatus>('idle');
+  const [captureSettings, setCaptureSettings] = useState<CaptureSettings>(loadCaptureSettings);
+  const [notice, setNotice] = useState<string | null>(null);
+  // Open microphone stream, for the level meter
+  const [stream, setStream] = useState<MediaStream | null>(null);
+  // Cancels a hands-free session that has not heard speech yet
+  const disarmRef = useRef<(() => void) | null>(null);
+  const [silenceDuration, setSilenceDuration] = useState(0.8);
   const [error, setError] = useState<string | null>(null);
   const [devices, setDevices] = useState<MediaDeviceInfo[]>([]);
   const [selectedDeviceId, setSelectedDeviceId] = useState<string | undefined>(undefined);
@@ -47,47 +102,219 @@ const Recorder: React.FC<RecorderProps> = ({ onRecordingComplete, audioUrl, audi
     });
   }, []);
 
-  const startRecording = async () => {
+  const openStream = (options: RecordingOptions = {}) => {
+    const audioConstraints: MediaTrackConstraints = {
+      ...(selectedDeviceId ? { deviceId: { exact: selectedDeviceId } } : {}),
+      // WAV capture is meant to get the microphone as is
+      ...(captureSettings.format === 'wav' ? { echoCancellation: false, noiseSuppression: false, autoGainControl: false } : {}),
+      ...(options.headphoneSafe ? { echoCancellation: true, autoGainControl: false } : {}),
+    };
+    const constraints: MediaStreamConstraints = {
+      audio: Object.keys(audioConstraints).length > 0 ? audioConstraints : true
+    };
+    return navigator.mediaDevices.getUserMedia(constraints);
+  };
+
+  const reportStream = (stream: MediaStream | null) => {
+    setStream(stream);
+    onStreamChange?.(stream);
+  };
+
+  // Release the microphone until the next recording
+  const releaseStream = (stream: MediaStream) => {
+    stream.getTracks().forEach(track => track.stop());
+    reportStream(null);
+  };
+
+  const startMediaRecorder = (stream: MediaStream, onComplete: (blob: Blob) => void): Capture => {
+    const mimeType = getSupportedMimeType();
+    const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+    const chunks: BlobPart[] = [];
+    recorder.ondataavailable = (e) => {
+      if (e.data.size > 0) {
+        chunks.push(e.data);
+      }
+    };
+    recorder.onstop = () => onComplete(new Blob(chunks, { type: mimeType || 'audio/webm' }));
+    recorder.start();
+    return { isRecording: () => recorder.state === 'recording', stop: () => recorder.stop() };
+  };
+
+  const startPcmRecorder = async (stream: MediaStream, onComplete: (blob: Blob) => void): Promise<Capture> => {
+    const recorder = new PcmRecorder();
+    await recorder.start(stream, captureSettings.sampleRate);
+    return {
+      isRecording: () => recorder.isRecording,
+      stop: () => {
+        recorder.stop()
+          .then(onComplete)
+          .catch(err => console.warn('[Recorder] Could not finish the WAV recording:', err));
+      },
+    };
+  };
+
+  // Record the stream until stopped; `onComplete` gets the recorded audio. WAV capture
+  // falls back to MediaRecorder where the browser cannot run it.
+  const startCapture = async (stream: MediaStream, onComplete: (blob: Blob) => void): Promise<Capture> => {
+    let capture: Capture | null = null;
+    if (captureSettings.format === 'wav') {
+      if (!isPcmCaptureSupported()) {
+        setNotice('Uncompressed WAV capture is not supported in this browser, recording compressed audio instead.');
+      } else {
+        try {
+          capture = await startPcmRecorder(stream, onComplete);
+        } catch (err) {
+          console.warn('[Recorder] WAV capture failed, falling back to MediaRecorder:', err);
+          setNotice('Uncompressed WAV capture failed to start, recording compressed audio instead.');
+        }
+      }
+    }
+    capture ??= startMediaRecorder(stream, onComplete);
+    captureRef.current = capture;
+    return capture;
+  };
+
+  const completeRecording = (blob: Blob) => {
+    const url = URL.createObjectURL(blob);
+    if (onRecordingComplete) {
+      onRecordingComplete(url, blob);
+    }
+  };
+
+  const startRecording = async (options: RecordingOptions = {}): Promise<boolean> => {
     setError(null);
+    setNotice(null);
     if (audioRef && audioRef.current) {
       audioRef.current.src = '';
     }
     try {
-      const constraints: MediaStreamConstraints = {
-        audio: selectedDeviceId ? { deviceId: { exact: selectedDeviceId } } : true
-      };
-      const stream = await navigator.mediaDevices.getUserMedia(constraints);
-      const mimeType = getSupportedMimeType();
-      const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
-      mediaRecorderRef.current = recorder;
-      const chunks: BlobPart[] = [];
-      recorder.ondataavailable = (e) => {
-        if (e.data.size > 0) {
-          chunks.push(e.data);
-        }
-      };
-      recorder.onstop = () => {
-        const blob = new Blob(chunks, { type: mimeType || 'audio/webm' });
-        const url = URL.createObjectURL(blob);
-        if (onRecordingComplete) {
-          onRecordingComplete(url, blob);
-        }
-      };
-      recorder.start();
+      const stream = await openStream(options);
+      await startCapture(stream, blob => {
+        releaseStream(stream);
+        completeRecording(blob);
+      });
+      reportStream(stream);
       setStatus('recording');
+      return true;
     } catch (err: any) {
       setError('Could not start recording: ' + (err.message || err));
       setStatus('idle');
+      return false;
     }
   };
 
   const stopRecording = () => {
-    if (mediaRecorderRef.current && status === 'recording') {
-      mediaRecorderRef.current.stop();
+    if (captureRef.current?.isRecording()) {
+      captureRef.current.stop();
       setStatus('stopped');
     }
   };
 
+  // Hands-free: the recorder runs from the moment it is armed, and the take is cropped to
+  // start shortly before the detected speech, so the first mora is never cut off
+  const armRecording = async () => {
+    setError(null);
+    setNotice(null);
+    if (audioRef && audioRef.current) {
+      audioRef.current.src = '';
+    }
+    let stream: MediaStream;
+    try {
+      stream = await openStream();
+    } catch (err) {
+      setError('Could not start recording: ' + (err instanceof Error ? err.message : String(err)));
+      return;
+    }
+
+    let recorder: Capture | null = null;
+    let recorderStart = 0;
+    let speechStart: number | null = null;
+    let idleTimer: ReturnType<typeof setInterval> | null = null;
+    let restarting = false;
+    let finished = false;
+
+    const finish = () => {
+      finished = true;
+      if (idleTimer) clearInterval(idleTimer);
+      trigger.stop();
+      disarmRef.current = null;
+      releaseStream(stream);
+    };
+
+    const record = async () => {
+      const current = await startCapture(stream, blob => {
+        // Stopped for a restart or a disarm
+        if (recorder !== current || speechStart === null) return;
+        finish();
+        const start = Math.max(0, speechStart - recorderStart - PRE_ROLL_SECONDS);
+        cropRecording(blob, start)
+          .catch(err => {
+            console.warn('[Recorder] Could not crop the pre-roll, keeping the whole recording:', err);
+            return blob;
+          })
+          .then(completeRecording);
+      });
+      // Disarmed while the capture was starting, or speech began in the capture it was
+      // meant to replace; that one holds the start of the take, so it stays
+      if (finished || (recorder && speechStart !== null)) {
+        current.stop();
+        return;
+      }
+      recorder = current;
+      recorderStart = trigger.now();
+    };
+
+    const trigger = new VoiceTrigger({ silenceDuration }, {
+      onSpeechStart: time => {
+        speechStart = time;
+        setStatus('recording');
+      },
+      onSpeechEnd: stopRecording,
+    });
+    trigger.start(stream);
+    try {
+      await record();
+    } catch (err) {
+      finish();
+      setError('Could not start recording: ' + (err instanceof Error ? err.message : String(err)));
+      return;
+    }
+    reportStream(stream);
+    setStatus('armed');
+
+    idleTimer = setInterval(() => {
+      if (restarting || speechStart !== null || trigger.isOnsetPending || trigger.now() - recorderStart < MAX_ARMED_IDLE_SECONDS) return;
+      const stale = recorder;
+      restarting = true;
+      record()
+        .then(() => {
+          if (recorder !== stale) stale?.stop();
+        })
+        .catch(err => console.warn('[Recorder] Could not restart the armed recorder:', err))
+        .finally(() => {
+          restarting = false;
+        });
+    }, 1000);
+
+    disarmRef.current = () => {
+      const current = recorder;
+      recorder = null;
+      current?.stop();
+      finish();
+      setStatus('idle');
+    };
+  };
+
+  // Don't leave the microphone, voice trigger and idle timer running after unmount
+  useEffect(() => () => disarmRef.current?.(), []);
+
+  useImperativeHandle(controlRef, () => ({ startRecording, stopRecording }));
+
+  const handleCaptureSettingsChange = (settings: CaptureSettings) => {
+    setCaptureSettings(settings);
+    saveCaptureSettings(settings);
+  };
+
   const clearRecording = () => {
     if (audioRef && audioRef.current) {
       audioRef.current.src = '';
@@ -98,8 +325,10 @@ const Recorder: React.FC<RecorderProps> = ({ onRecordingComplete, audioUrl, audi
 
   return (
     <div style={{ display: 'flex', flexDirection: 'column', alignItems: 'center', gap: 12 }}>
-      <div>Status: <b>{status}</b></div>
+      <div>Status: <b>{status === 'armed' ? 'armed, waiting for speech' : status}</b></div>
       {error && <div style={{ color: 'red', fontSize: 12 }}>{error}</div>}
+      {notice && <div style={{ color: '#666', fontSize: 12 }}>{notice}</div>}
+      {stream && (status === 'armed' || status === 'recording') && <LevelMeter stream={stream} />}
       {!isMobile() && devices.length > 0 && (
         <div style={{ margin: '8px 0', display: 'flex', alignItems: 'center', gap: 8 }}>
           <label htmlFor="mic-select" style={{ fontSize: 13 }}>Microphone:</label>
@@ -116,16 +345,76 @@ const Recorder: React.FC<RecorderProps> = ({ onRecordingComplete, audioUrl, audi
         </div>
       )}
       <div style={{ display: 'flex', gap: 8 }}>
-        <Button variant="contained" color="primary" onClick={startRecording} disabled={status === 'recording'}>
+        <Button
+          variant="contained"
+          color="primary"
+          onClick={() => startRecording()}
+          disabled={status === 'recording' || status === 'armed'}
+        >
           Record
         </Button>
-        <Button variant="contained" color="secondary" onClick={stopRecording} disabled={status !== 'recording'}>
+        <Button
+          variant="outlined"
+          color="primary"
+          title="Start recording when you start speaking, stop after a pause"
+          onClick={armRecording}
+          disabled={status === 'recording' || status === 'armed'}
+        >
+          Hands-free
+        </Button>
+        <Button
+          variant="contained"
+          color="secondary"
+          onClick={() => (status === 'armed' ? disarmRef.current?.() : stopRecording())}
+          disabled={status !== 'recording' && status !== 'armed'}
+        >
           Stop
         </Button>
         <Button variant="outlined" onClick={clearRecording} disabled={!audioUrl}>
           Clear
         </Button>
       </div>
+      <label style={{ display: 'flex', alignItems: 'center', gap: 6, fontSize: 12 }}>
+        Hands-free stops after
+        <select
+          value={silenceDuration}
+          onChange={e => setSilenceDuration(Number(e.target.value))}
+          disabled={status === 'armed' || status === 'recording'}
+          style={{ fontSize: 12 }}
+        >
+          {SILENCE_DURATION_OPTIONS.map(option => (
+            <option key={option} value={option}>{option}s</option>
+          ))}
+        </select>
+        of silence
+      </label>
+      <div style={{ display: 'flex', alignItems: 'center', gap: 6, fontSize: 12 }}>
+        <label htmlFor="capture-format-select">Capture:</label>
+        <select
+          id="capture-format-select"
+          value={captureSettings.format}
+          onChange={e => handleCaptureSettingsChange({ ...captureSettings, format: e.target.value as CaptureFormat })}
+          disabled={status === 'armed' || status === 'recording'}
+          style={{ fontSize: 12 }}
+        >
+          {CAPTURE_FORMATS.map(format => (
+            <option key={format.id} value={format.id}>{format.label}</option>
+          ))}
+        </select>
+        {captureSettings.format === 'wav' && (
+          <select
+            value={captureSettings.sampleRate}
+            onChange={e => handleCaptureSettingsChange({ ...captureSettings, sampleRate: Number(e.target.value) })}
+            disabled={status === 'armed' || status === 'recording'}
+            title="Sample rate of the recorded WAV"
+            style={{ fontSize: 12 }}
+          >
+            {PCM_SAMPLE_RATE_OPTIONS.map(rate => (
+              <option key={rate} value={rate}>{rate / 1000} kHz</option>
+            ))}
+          </select>
+        )}
+      </div>
       {audioUrl && showPlayer && (
         <audio ref={audioRef} src={audioUrl} controls style={{ marginTop: 16 }} />
       )}
@@ -0,0 +1,29 @@
+import React from 'react';
+import type { RecordingQuality } from '../services/RecordingQuality';
+
+interface RecordingQualitySummaryProps {
+  quality: RecordingQuality;
+}
+
+// Levels of the current take, so a bad curve can be traced back to the recording setup
+const RecordingQualitySummary: React.FC<RecordingQualitySummaryProps> = ({ quality }) => (
+  <div style={{ width: '100%', maxWidth: 400, margin: '0.5rem auto 0 auto', fontSize: 12 }}>
+    <div style={{ display: 'flex', flexWrap: 'wrap', justifyContent: 'center', gap: 10, color: '#555' }}>
+      <span title="Loudest sample" style={{ color: quality.clipped ? '#d32f2f' : undefined }}>
+        Peak {quality.peakDb.toFixed(1)} dBFS
+      </span>
+      <span title="Average level of the speech">RMS {quality.rmsDb.toFixed(1)} dBFS</span>
+      <span title="Speech level over the background noise">
+        SNR {quality.snrDb !== null ? `${quality.snrDb.toFixed(0)} dB` : '–'}
+      </span>
+      <span title="Share of the speech with a detected pitch">
+        Voiced {quality.voicedRatio !== null ? `${Math.round(quality.voicedRatio * 100)}%` : '–'}
+      </span>
+    </div>
+    {quality.warnings.map(warning => (
+      <div key={warning} style={{ color: '#f57c00', textAlign: 'center' }}>{warning}</div>
+    ))}
+  </div>
+);
+
+export default RecordingQualitySummary;
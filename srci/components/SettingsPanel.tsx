@@ -0,0 +1,124 @@
+import React, { useEffect, useState } from 'react';
+import {
+  DEFAULT_PITCH_ANALYSIS_SETTINGS,
+  FRAME_SIZE_OPTIONS,
+  PITCH_ANALYSIS_PRESETS,
+  arePitchAnalysisSettingsEqual,
+  sanitizePitchAnalysisSettings,
+} from '../services/PitchAnalysisSettings';
+import type { PitchAnalysisSettings } from '../services/PitchAnalysisSettings';
+import { PITCH_ALGORITHMS } from '../services/PitchTracker';
+import type { PitchAlgorithm } from '../services/PitchTracker';
+
+interface SettingsPanelProps {
+  settings: PitchAnalysisSettings;
+  onChange: (settings: PitchAnalysisSettings) => void;
+  disabled?: boolean;
+}
+
+const FIELDS: { key: Exclude<keyof PitchAnalysisSettings, 'algorithm'>; label: string; step: number; hint: string }[] = [
+  { key: 'minPitch', label: 'Min pitch (Hz)', step: 5, hint: 'Lower for deep voices' },
+  { key: 'maxPitch', label: 'Max pitch (Hz)', step: 10, hint: 'Raise for children and high voices' },
+  { key: 'minClarity', label: 'Min clarity', step: 0.05, hint: 'Lower keeps more (noisier) voiced frames' },
+  { key: 'medianFilterSize', label: 'Median filter (frames)', step: 1, hint: 'First outlier removal pass' },
+  { key: 'hopSize', label: 'Hop size (samples)', step: 32, hint: 'Smaller gives more points per second' },
+  { key: 'smoothingWindow', label: 'Smoothing window (frames)', step: 1, hint: 'Larger gives a simpler curve' },
+];
+
+const labelStyle: React.CSSProperties = { fontSize: 12, display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: 8 };
+const inputStyle: React.CSSProperties = { width: 80, fontSize: 12 };
+
+const SettingsPanel: React.FC<SettingsPanelProps> = ({ settings, onChange, disabled = false }) => {
+  const [draft, setDraft] = useState<PitchAnalysisSettings>(settings);
+
+  // Keep the form in sync when settings are changed from outside
+  useEffect(() => {
+    setDraft(settings);
+  }, [settings]);
+
+  const sanitizedDraft = sanitizePitchAnalysisSettings(draft);
+  const hasChanges = !arePitchAnalysisSettingsEqual(sanitizedDraft, settings);
+
+  const applyDraft = () => {
+    setDraft(sanitizedDraft);
+    onChange(sanitizedDraft);
+  };
+
+  return (
+    <details style={{ width: '100%', maxWidth: 400, margin: '0 auto 0.75rem auto', textAlign: 'left', fontSize: 13 }}>
+      <summary style={{ cursor: 'pointer', color: '#1976d2' }}>Pitch analysis settings</summary>
+      <div style={{ display: 'flex', flexDirection: 'column', gap: 6, padding: '8px 4px' }}>
+        <label style={labelStyle}>
+          <span>Preset</span>
+          <select
+            value=""
+            onChange={e => {
+              const preset = PITCH_ANALYSIS_PRESETS.find(p => p.id === e.target.value);
+              if (preset) setDraft(preset.settings);
+            }}
+            style={{ fontSize: 12 }}
+          >
+            <option value="" disabled>Choose…</option>
+            {PITCH_ANALYSIS_PRESETS.map(preset => (
+              <option key={preset.id} value={preset.id}>{preset.label}</option>
+            ))}
+          </select>
+        </label>
+        <label style={labelStyle} title="YIN and probabilistic YIN make fewer octave jumps on noisy audio">
+          <span>Algorithm</span>
+          <select
+            value={draft.algorithm}
+            onChange={e => setDraft({ ...draft, algorithm: e.target.value as PitchAlgorithm })}
+            style={{ fontSize: 12 }}
+          >
+            {PITCH_ALGORITHMS.map(algorithm => (
+              <option key={algorithm.id} value={algorithm.id}>{algorithm.label}</option>
+            ))}
+          </select>
+        </label>
+        {FIELDS.map(field => (
+          <label key={field.key} style={labelStyle} title={field.hint}>
+            <span>{field.label}</span>
+            <input
+              type="number"
+              step={field.step}
+              value={draft[field.key]}
+              onChange={e => setDraft({ ...draft, [field.key]: Number(e.target.value) })}
+              style={inputStyle}
+            />
+          </label>
+        ))}
+        <label style={labelStyle} title="Longer frames track lower voices more reliably">
+          <span>Frame size (samples)</span>
+          <select
+            value={draft.frameSize}
+            onChange={e => setDraft({ ...draft, frameSize: Number(e.target.value) })}
+            style={{ fontSize: 12 }}
+          >
+            {FRAME_SIZE_OPTIONS.map(size => (
+              <option key={size} value={size}>{size}</option>
+            ))}
+          </select>
+        </label>
+        <div style={{ display: 'flex', gap: 8, justifyContent: 'flex-end', marginTop: 4 }}>
+          <button
+            style={{ fontSize: 12, padding: '2px 8px' }}
+            onClick={() => setDraft(DEFAULT_PITCH_ANALYSIS_SETTINGS)}
+          >
+            Defaults
+          </button>
+          <button
+            style={{ fontSize: 12, padding: '2px 8px' }}
+            disabled={disabled || !hasChanges}
+            title={disabled ? 'Wait for the current file to finish loading' : 'Re-analyse the loaded recordings'}
+            onClick={applyDraft}
+          >
+            Apply
+          </button>
+        </div>
+      </div>
+    </details>
+  );
+};
+
+export default SettingsPanel;
@@ -0,0 +1,72 @@
+import React, { useState } from 'react';
+import type { ShadowingPhase, ShadowingStatus } from '../services/Shadowing';
+
+interface ShadowingControlsProps {
+  // Null while no session is running
+  status: ShadowingStatus | null;
+  // Shadowing needs native media and a loop region
+  disabled: boolean;
+  onStart: (options: { cycles: number; simultaneous: boolean }) => void;
+  onStop: () => void;
+}
+
+const CYCLE_OPTIONS = [1, 3, 5, 10];
+
+const PHASE_LABELS: Record<ShadowingPhase, string> = {
+  listening: 'Listen...',
+  waiting: 'Get ready...',
+  recording: 'Speak now',
+  reviewing: 'Compare',
+};
+
+const ShadowingControls: React.FC<ShadowingControlsProps> = ({ status, disabled, onStart, onStop }) => {
+  const [cycles, setCycles] = useState(3);
+  const [simultaneous, setSimultaneous] = useState(false);
+
+  return (
+    <div style={{ width: '100%', maxWidth: 400, margin: '0 auto 0.5rem auto', display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: 8, fontSize: 12 }}>
+      <strong style={{ fontSize: 13 }}>Shadowing</strong>
+      {status ? (
+        <>
+          <span style={{ fontWeight: 600, color: status.phase === 'recording' ? '#d32f2f' : '#1976d2' }}>
+            {PHASE_LABELS[status.phase]}
+          </span>
+          <span style={{ color: '#888' }}>cycle {status.cycle}/{status.cycles}</span>
+          <button style={{ fontSize: 12, padding: '2px 8px', marginLeft: 'auto' }} onClick={onStop}>
+            Stop
+          </button>
+        </>
+      ) : (
+        <>
+          <select
+            value={cycles}
+            onChange={e => setCycles(Number(e.target.value))}
+            style={{ fontSize: 12 }}
+            title="Number of listen-repeat cycles"
+          >
+            {CYCLE_OPTIONS.map(option => (
+              <option key={option} value={option}>{option}×</option>
+            ))}
+          </select>
+          <label
+            style={{ display: 'flex', alignItems: 'center', gap: 4 }}
+            title="Record while the native loop plays. Use headphones so the native audio is not recorded."
+          >
+            <input type="checkbox" checked={simultaneous} onChange={e => setSimultaneous(e.target.checked)} />
+            Simultaneous (headphones)
+          </label>
+          <button
+            style={{ fontSize: 12, padding: '2px 8px', marginLeft: 'auto' }}
+            title="Play the loop, then record yourself repeating it"
+            disabled={disabled}
+            onClick={() => onStart({ cycles, simultaneous })}
+          >
+            Start
+          </button>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ShadowingControls;
@@ -0,0 +1,93 @@
+import React, { useEffect, useRef } from 'react';
+import type { SubtitleCue } from '../services/SubtitleParser';
+
+interface SubtitlePanelProps {
+  cues: SubtitleCue[];
+  activeCueIndex: number | null;
+  onCueSelect: (cue: SubtitleCue) => void;
+  onClear?: () => void;
+}
+
+// m:ss.s, enough to tell neighbouring cues apart
+const formatCueTime = (seconds: number) => {
+  const minutes = Math.floor(seconds / 60);
+  const rest = seconds - minutes * 60;
+  return `${minutes}:${rest.toFixed(1).padStart(4, '0')}`;
+};
+
+const SubtitlePanel: React.FC<SubtitlePanelProps> = ({ cues, activeCueIndex, onCueSelect, onClear }) => {
+  const listRef = useRef<HTMLDivElement>(null);
+
+  // Keep the active cue in view when stepping through the list
+  useEffect(() => {
+    if (activeCueIndex === null || !listRef.current) return;
+    const item = listRef.current.querySelector<HTMLElement>(`[data-cue-index="${activeCueIndex}"]`);
+    item?.scrollIntoView({ block: 'nearest' });
+  }, [activeCueIndex]);
+
+  if (cues.length === 0) return null;
+
+  const selectOffset = (offset: number) => {
+    const index = activeCueIndex === null ? 0 : activeCueIndex + offset;
+    if (index >= 0 && index < cues.length) onCueSelect(cues[index]);
+  };
+
+  return (
+    <div style={{ width: '100%', maxWidth: 400, margin: '0 auto 0.75rem auto', textAlign: 'left', fontSize: 13 }}>
+      <div style={{ display: 'flex', alignItems: 'center', gap: 8, marginBottom: 4 }}>
+        <span style={{ fontSize: 12, flex: 1 }}>Subtitles ({cues.length} cues)</span>
+        <button
+          style={{ fontSize: 12, padding: '2px 8px' }}
+          title="Previous sentence"
+          disabled={activeCueIndex === null || activeCueIndex <= 0}
+          onClick={() => selectOffset(-1)}
+        >
+          ◀ Prev
+        </button>
+        <button
+          style={{ fontSize: 12, padding: '2px 8px' }}
+          title="Next sentence"
+          disabled={activeCueIndex !== null && activeCueIndex >= cues.length - 1}
+          onClick={() => selectOffset(1)}
+        >
+          Next ▶
+        </button>
+        {onClear && (
+          <button style={{ fontSize: 12, padding: '2px 8px' }} title="Remove subtitles" onClick={onClear}>
+            ✕
+          </button>
+        )}
+      </div>
+      <div
+        ref={listRef}
+        style={{ maxHeight: 160, overflowY: 'auto', border: '1px solid #ddd', borderRadius: 4 }}
+      >
+        {cues.map(cue => {
+          const isActive = cue.index === activeCueIndex;
+          return (
+            <div
+              key={cue.index}
+              data-cue-index={cue.index}
+              onClick={() => onCueSelect(cue)}
+              style={{
+                display: 'flex',
+                gap: 8,
+                padding: '3px 6px',
+                cursor: 'pointer',
+                background: isActive ? 'rgba(25, 118, 210, 0.12)' : 'transparent',
+                borderBottom: '1px solid #f0f0f0',
+              }}
+            >
+              <span style={{ fontSize: 11, color: '#888', whiteSpace: 'nowrap', fontVariantNumeric: 'tabular-nums' }}>
+                {formatCueTime(cue.start)}
+              </span>
+              <span style={{ whiteSpace: 'pre-line', fontWeight: isActive ? 600 : 400 }}>{cue.text}</span>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default SubtitlePanel;
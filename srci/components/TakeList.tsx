@@ -0,0 +1,132 @@
+import React from 'react';
+import type { UserTake } from '../services/TakeHistory';
+
+interface TakeListProps {
+  // Takes of the current loop region, oldest first
+  takes: UserTake[];
+  activeTakeId: string | null;
+  compareTakeId: string | null;
+  onSelect: (take: UserTake) => void;
+  // Pass null to compare against the native loop only
+  onCompare: (take: UserTake | null) => void;
+  onTogglePin: (take: UserTake) => void;
+  // Switch between the trimmed and the original recording
+  onToggleTrim: (take: UserTake) => void;
+  onDelete: (take: UserTake) => void;
+}
+
+const smallButtonStyle: React.CSSProperties = { fontSize: 12, padding: '2px 6px' };
+
+const scoreColor = (score: number) => (score >= 75 ? '#388e3c' : score >= 50 ? '#f57c00' : '#d32f2f');
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+const TakeList: React.FC<TakeListProps> = ({
+  takes,
+  activeTakeId,
+  compareTakeId,
+  onSelect,
+  onCompare,
+  onTogglePin,
+  onToggleTrim,
+  onDelete,
+}) => {
+  const scores = takes.flatMap(take => (take.score !== null ? [take.score] : []));
+  const bestScore = scores.length > 0 ? Math.max(...scores) : null;
+
+  return (
+    <details open style={{ width: '100%', maxWidth: 400, margin: '0.5rem auto 0.75rem auto', textAlign: 'left', fontSize: 13 }}>
+      <summary style={{ cursor: 'pointer', color: '#1976d2' }}>
+        Takes for this loop ({takes.length}){bestScore !== null && ` · best ${bestScore}`}
+      </summary>
+      <div style={{ display: 'flex', flexDirection: 'column', gap: 4, padding: '8px 4px', maxHeight: 200, overflowY: 'auto' }}>
+        {takes.length === 0 && (
+          <span style={{ fontSize: 12, color: '#888' }}>Record yourself to start a take history for this loop.</span>
+        )}
+        {takes.map((take, index) => {
+          const isActive = take.id === activeTakeId;
+          const isCompared = take.id === compareTakeId;
+          const isTrimmed = take.blob !== take.originalBlob;
+          // Change against the previous scored take, to see the trend at a glance
+          const previous = takes.slice(0, index).reverse().find(t => t.score !== null);
+          const delta = take.score !== null && previous && previous.score !== null ? take.score - previous.score : null;
+          return (
+            <div
+              key={take.id}
+              style={{
+                display: 'flex',
+                alignItems: 'center',
+                gap: 4,
+                border: '1px solid #ddd',
+                borderRadius: 4,
+                padding: '2px 6px',
+                background: isActive ? 'rgba(25, 118, 210, 0.12)' : isCompared ? 'rgba(142, 36, 170, 0.1)' : 'transparent',
+              }}
+            >
+              <span
+                style={{ flex: 1, cursor: 'pointer', fontWeight: isActive ? 600 : 400 }}
+                title="Show this take on your chart (A)"
+                onClick={() => onSelect(take)}
+              >
+                Take {index + 1}
+                <span style={{ fontSize: 11, color: '#888', marginLeft: 6 }}>{formatTime(take.createdAt)}</span>
+              </span>
+              <span style={{ minWidth: 56, textAlign: 'right', fontSize: 12 }}>
+                {take.score !== null ? (
+                  <>
+                    <b style={{ color: scoreColor(take.score) }}>{take.score}</b>
+                    {delta !== null && delta !== 0 && (
+                      <span style={{ fontSize: 11, color: delta > 0 ? '#388e3c' : '#d32f2f', marginLeft: 3 }}>
+                        {delta > 0 ? `+${delta}` : delta}
+                      </span>
+                    )}
+                  </>
+                ) : (
+                  <span style={{ color: '#888' }}>{take.pitchData ? '-' : '...'}</span>
+                )}
+              </span>
+              <button
+                style={{ ...smallButtonStyle, fontWeight: isCompared ? 700 : 400 }}
+                title={isCompared ? 'Stop comparing with this take' : 'Overlay this take on the comparison chart (B)'}
+                disabled={isActive || !take.pitchData}
+                onClick={() => onCompare(isCompared ? null : take)}
+              >
+                B
+              </button>
+              <button
+                style={{ ...smallButtonStyle, fontWeight: isTrimmed ? 700 : 400 }}
+                title={
+                  isTrimmed
+                    ? `Silence trimmed (starts ${take.trimOffset.toFixed(2)}s into the recording); click to use the untrimmed recording`
+                    : 'Trim leading and trailing silence'
+                }
+                onClick={() => onToggleTrim(take)}
+              >
+                ✂
+              </button>
+              <button
+                style={smallButtonStyle}
+                title={take.pinned ? 'Unpin; unpinned takes are dropped as new ones come in' : 'Pin to keep this take'}
+                onClick={() => onTogglePin(take)}
+              >
+                {take.pinned ? '★' : '☆'}
+              </button>
+              <button
+                style={smallButtonStyle}
+                title="Delete take"
+                onClick={() => {
+                  if (!take.pinned || window.confirm(`Delete pinned take ${index + 1}?`)) onDelete(take);
+                }}
+              >
+                ✕
+              </button>
+            </div>
+          );
+        })}
+      </div>
+    </details>
+  );
+};
+
+export default TakeList;
@@ -0,0 +1,186 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { AudioOverview } from '../services/AudioOverview';
+
+interface TimelineMinimapProps {
+  overview: AudioOverview;
+  duration: number;
+  viewStart: number | null;
+  viewEnd: number | null;
+  loopStart: number;
+  loopEnd: number;
+  playbackTime: number;
+  // Called while the viewport is dragged, then once more when the drag ends
+  onViewportChange: (start: number, end: number) => void;
+  onViewportCommit: (start: number, end: number) => void;
+  onSeek: (time: number) => void;
+  height?: number;
+}
+
+// Pointer movement (px) below which a press counts as a click
+const CLICK_TOLERANCE = 3;
+
+interface DragState {
+  pointerId: number;
+  startX: number;
+  // Viewport start at the time of the press, null when the press was outside the viewport
+  viewStart: number | null;
+  moved: boolean;
+}
+
+const TimelineMinimap: React.FC<TimelineMinimapProps> = ({
+  overview,
+  duration,
+  viewStart,
+  viewEnd,
+  loopStart,
+  loopEnd,
+  playbackTime,
+  onViewportChange,
+  onViewportCommit,
+  onSeek,
+  height = 36,
+}) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const dragRef = useRef<DragState | null>(null);
+  // Viewport shown while dragging, so the strip follows the pointer without waiting for the chart
+  const [dragView, setDragView] = useState<{ start: number; end: number } | null>(null);
+  const [width, setWidth] = useState(0);
+
+  // Track the rendered width so the canvas stays sharp when the layout changes
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const observer = new ResizeObserver(entries => setWidth(entries[0].contentRect.width));
+    observer.observe(canvas);
+    return () => observer.disconnect();
+  }, []);
+
+  const shownStart = dragView?.start ?? viewStart;
+  const shownEnd = dragView?.end ?? viewEnd;
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || width === 0 || duration <= 0) return;
+
+    const dpr = window.devicePixelRatio || 1;
+    canvas.width = Math.round(width * dpr);
+    canvas.height = Math.round(height * dpr);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+    ctx.clearRect(0, 0, width, height);
+
+    const toX = (time: number) => (time / duration) * width;
+    ctx.fillStyle = '#f5f5f5';
+    ctx.fillRect(0, 0, width, height);
+
+    // Energy as a grey envelope, voicing density as green bars on top
+    const { binDuration, energy, voicing } = overview;
+    const binWidth = Math.max(1, toX(binDuration));
+    for (let i = 0; i < energy.length; i++) {
+      const x = toX(i * binDuration);
+      const energyHeight = energy[i] * height;
+      ctx.fillStyle = '#cfd8dc';
+      ctx.fillRect(x, (height - energyHeight) / 2, binWidth, energyHeight);
+      if (voicing[i] > 0) {
+        const voicedHeight = voicing[i] * energy[i] * height;
+        ctx.fillStyle = 'rgba(56, 142, 60, 0.7)';
+        ctx.fillRect(x, (height - voicedHeight) / 2, binWidth, voicedHeight);
+      }
+    }
+
+    // Loop region
+    if (loopEnd > loopStart) {
+      ctx.fillStyle = 'rgba(255, 193, 7, 0.3)';
+      ctx.fillRect(toX(loopStart), 0, Math.max(1, toX(loopEnd) - toX(loopStart)), height);
+    }
+
+    // Current viewport
+    if (shownStart !== null && shownEnd !== null && shownEnd > shownStart) {
+      const x = toX(shownStart);
+      const w = Math.max(2, toX(shownEnd) - x);
+      ctx.fillStyle = 'rgba(25, 118, 210, 0.15)';
+      ctx.fillRect(x, 0, w, height);
+      ctx.strokeStyle = '#1976d2';
+      ctx.lineWidth = 1.5;
+      ctx.strokeRect(x + 0.75, 0.75, w - 1.5, height - 1.5);
+    }
+
+    // Playback head
+    const playX = toX(Math.max(0, Math.min(duration, playbackTime)));
+    ctx.strokeStyle = '#d32f2f';
+    ctx.lineWidth = 1.5;
+    ctx.beginPath();
+    ctx.moveTo(playX, 0);
+    ctx.lineTo(playX, height);
+    ctx.stroke();
+  }, [overview, duration, width, height, shownStart, shownEnd, loopStart, loopEnd, playbackTime]);
+
+  const timeAt = (clientX: number) => {
+    const rect = canvasRef.current?.getBoundingClientRect();
+    if (!rect || rect.width === 0) return 0;
+    return Math.max(0, Math.min(duration, ((clientX - rect.left) / rect.width) * duration));
+  };
+
+  // New viewport start when the press that started at drag.startX has moved to clientX
+  const draggedRange = (drag: DragState, clientX: number) => {
+    const rect = canvasRef.current?.getBoundingClientRect();
+    if (!rect || drag.viewStart === null || viewStart === null || viewEnd === null) return null;
+    const span = viewEnd - viewStart;
+    const delta = ((clientX - drag.startX) / rect.width) * duration;
+    const start = Math.max(0, Math.min(duration - span, drag.viewStart + delta));
+    return { start, end: start + span };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const time = timeAt(e.clientX);
+    const insideView = viewStart !== null && viewEnd !== null && time >= viewStart && time <= viewEnd;
+    dragRef.current = { pointerId: e.pointerId, startX: e.clientX, viewStart: insideView ? viewStart : null, moved: false };
+    e.currentTarget.setPointerCapture(e.pointerId);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const drag = dragRef.current;
+    if (!drag || drag.pointerId !== e.pointerId) return;
+    if (Math.abs(e.clientX - drag.startX) > CLICK_TOLERANCE) drag.moved = true;
+    if (!drag.moved) return;
+
+    const range = draggedRange(drag, e.clientX);
+    if (range) {
+      setDragView(range);
+      onViewportChange(range.start, range.end);
+    }
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const drag = dragRef.current;
+    if (!drag || drag.pointerId !== e.pointerId) return;
+    dragRef.current = null;
+    e.currentTarget.releasePointerCapture(e.pointerId);
+
+    const range = drag.moved ? draggedRange(drag, e.clientX) : null;
+    setDragView(null);
+    if (range) {
+      onViewportCommit(range.start, range.end);
+    } else if (!drag.moved) {
+      onSeek(timeAt(e.clientX));
+    }
+  };
+
+  return (
+    <canvas
+      ref={canvasRef}
+      style={{ width: '100%', height, display: 'block', cursor: 'pointer', touchAction: 'none', borderRadius: 4 }}
+      title="Drag the blue window to scroll, click to seek"
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={() => {
+        dragRef.current = null;
+        setDragView(null);
+      }}
+    />
+  );
+};
+
+export default TimelineMinimap;
@@ -0,0 +1,171 @@
+import { normalizeContour } from './PronunciationScore';
+import type { PitchContour } from './TimeAlignment';
+
+// Tokyo-style accent types, named after where the downstep (accent nucleus) falls
+export type AccentPattern = 'heiban' | 'atamadaka' | 'nakadaka' | 'odaka';
+
+export interface AccentEstimate {
+  pattern: AccentPattern;
+  // Mora after which the pitch drops, 0 for heiban
+  nucleus: number;
+  moraCount: number;
+  // Short label such as 'heiban' or 'nakadaka-2'
+  label: string;
+  // 0-1, how clearly the best pattern beat the runner-up
+  confidence: number;
+  // Mean pitch of each mora in semitones re the speaker median (null if unvoiced)
+  moraLevels: (number | null)[];
+  // moraCount + 1 times (seconds) delimiting the morae on the contour's timeline
+  moraBoundaries: number[];
+  // Expected high (1) / low (0) level of each mora for the chosen pattern
+  template: number[];
+}
+
+export interface AccentClassifierOptions {
+  // Only use the contour inside this time range
+  start?: number;
+  end?: number;
+  // Known mora boundaries (moraCount + 1 times); equal-length morae are assumed otherwise
+  moraBoundaries?: number[];
+}
+
+// Minimum high-low difference (semitones) for a pitch change to count as a downstep
+const MIN_STEP = 1;
+
+// Fall inside the last mora (semitones) that marks odaka rather than heiban. Without a
+// following particle the two are otherwise identical on the word itself.
+const FINAL_FALL_THRESHOLD = 1.5;
+
+export function patternForNucleus(nucleus: number, moraCount: number): AccentPattern {
+  if (nucleus === 0) return 'heiban';
+  if (nucleus === 1) return 'atamadaka';
+  if (nucleus === moraCount) return 'odaka';
+  return 'nakadaka';
+}
+
+export function accentLabel(pattern: AccentPattern, nucleus: number): string {
+  return pattern === 'nakadaka' ? `nakadaka-${nucleus}` : pattern;
+}
+
+// High/low level per mora: the first mora is low unless it carries the accent,
+// everything up to the nucleus is high and everything after it low
+export function accentTemplate(nucleus: number, moraCount: number): number[] {
+  return Array.from({ length: moraCount }, (_, i) => {
+    const mora = i + 1;
+    if (nucleus === 1) return mora === 1 ? 1 : 0;
+    if (mora === 1) return moraCount === 1 ? (nucleus === 0 ? 0 : 1) : 0;
+    return nucleus === 0 || mora <= nucleus ? 1 : 0;
+  });
+}
+
+// Squared error of the best fit levels ~ offset + step * template, and the fitted step
+function fitTemplate(levels: number[], template: number[]): { error: number; step: number } {
+  const n = levels.length;
+  const meanT = template.reduce((a, b) => a + b, 0) / n;
+  const meanL = levels.reduce((a, b) => a + b, 0) / n;
+  let covariance = 0;
+  let varianceT = 0;
+  for (let i = 0; i < n; i++) {
+    covariance += (template[i] - meanT) * (levels[i] - meanL);
+    varianceT += (template[i] - meanT) * (template[i] - meanT);
+  }
+  // Only allow the high morae to be higher than the low ones
+  const step = varianceT > 0 ? Math.max(0, covariance / varianceT) : 0;
+  let error = 0;
+  for (let i = 0; i < n; i++) {
+    const predicted = meanL + step * (template[i] - meanT);
+    error += (levels[i] - predicted) * (levels[i] - predicted);
+  }
+  return { error, step };
+}
+
+const mean = (values: number[]) => (values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : null);
+
+// Estimate the accent pattern of a single word from its pitch contour
+export function classifyAccent(
+  contour: PitchContour,
+  moraCount: number,
+  options: AccentClassifierOptions = {}
+): AccentEstimate | null {
+  if (moraCount < 1) return null;
+
+  const values = normalizeContour(contour.pitches);
+  const inRange = contour.times.flatMap((t, i) =>
+    values[i] !== null && t >= (options.start ?? -Infinity) && t <= (options.end ?? Infinity) ? [i] : []
+  );
+  if (inRange.length < 2) return null;
+
+  // Split the voiced span into morae
+  let boundaries = options.moraBoundaries;
+  if (!boundaries || boundaries.length !== moraCount + 1) {
+    const start = contour.times[inRange[0]];
+    const end = contour.times[inRange[inRange.length - 1]];
+    boundaries = Array.from({ length: moraCount + 1 }, (_, i) => start + ((end - start) * i) / moraCount);
+  }
+
+  const moraLevels: (number | null)[] = [];
+  let lastMoraFall = 0;
+  for (let m = 0; m < moraCount; m++) {
+    const from = boundaries[m];
+    const to = boundaries[m + 1];
+    const middle = (from + to) / 2;
+    const firstHalf: number[] = [];
+    const secondHalf: number[] = [];
+    for (const i of inRange) {
+      const t = contour.times[i];
+      if (t < from || t > to) continue;
+      (t < middle ? firstHalf : secondHalf).push(values[i] as number);
+    }
+    if (m === moraCount - 1) {
+      // An odaka fall happens at the end of the last mora, so its level is taken from the onset
+      const early = mean(firstHalf);
+      const late = mean(secondHalf);
+      lastMoraFall = early !== null && late !== null ? early - late : 0;
+      moraLevels.push(early ?? late);
+    } else {
+      moraLevels.push(mean([...firstHalf, ...secondHalf]));
+    }
+  }
+  if (moraLevels.every(level => level === null)) return null;
+
+  // Fill unvoiced morae (e.g. devoiced vowels) from their neighbours
+  const levels = moraLevels.map((level, i) => {
+    if (level !== null) return level;
+    const before = moraLevels.slice(0, i).reverse().find(l => l !== null);
+    const after = moraLevels.slice(i + 1).find(l => l !== null);
+    if (before != null && after != null) return (before + after) / 2;
+    return (before ?? after) as number;
+  });
+
+  // Heiban and odaka share a template on the word itself, so fit heiban, atamadaka and
+  // every nakadaka position, then split heiban/odaka using the fall in the last mora
+  const candidates: number[] = [0];
+  for (let k = 1; k < moraCount; k++) candidates.push(k);
+  const fits = candidates.map(nucleus => ({ nucleus, ...fitTemplate(levels, accentTemplate(nucleus, moraCount)) }));
+  fits.sort((a, b) => a.error - b.error);
+
+  let nucleus = fits[0].nucleus;
+  // A contour without a clear rise or fall is read as flat
+  if (moraCount > 1 && fits[0].step < MIN_STEP) nucleus = 0;
+  if (nucleus === 0 && lastMoraFall > FINAL_FALL_THRESHOLD) nucleus = moraCount;
+
+  let confidence: number;
+  if (moraCount === 1 || fits.length < 2) {
+    confidence = Math.min(1, Math.abs(lastMoraFall) / (2 * FINAL_FALL_THRESHOLD));
+  } else {
+    const runnerUp = fits.find(fit => fit.nucleus !== fits[0].nucleus) ?? fits[1];
+    confidence = runnerUp.error > 0 ? Math.max(0, Math.min(1, 1 - fits[0].error / runnerUp.error)) : 0;
+  }
+
+  const pattern = patternForNucleus(nucleus, moraCount);
+  return {
+    pattern,
+    nucleus,
+    moraCount,
+    label: accentLabel(pattern, nucleus),
+    confidence,
+    moraLevels,
+    moraBoundaries: boundaries,
+    template: accentTemplate(nucleus, moraCount),
+  };
+}
@@ -0,0 +1,111 @@
+// Coarse whole-file summary for the timeline minimap, computed once from the decoded PCM
+export interface AudioOverview {
+  // Seconds covered by each bin
+  binDuration: number;
+  // RMS level per bin on a 0-1 scale (0 = 60 dB below the loudest bin)
+  energy: number[];
+  // Fraction (0-1) of each bin's frames that look voiced
+  voicing: number[];
+}
+
+// Target bin count; long files get wider bins rather than more of them
+const MAX_BINS = 2000;
+const MIN_BIN_DURATION = 0.1;
+// Analysis frame for the voicing estimate, in seconds
+const FRAME_DURATION = 0.02;
+// Frames quieter than this relative to the loudest frame never count as voiced
+const VOICING_FLOOR_DB = -35;
+// Voiced speech has few zero crossings compared to fricatives and noise (crossings per sample)
+const MAX_VOICED_ZCR = 0.15;
+const DYNAMIC_RANGE_DB = 60;
+
+const toDb = (power: number) => 10 * Math.log10(power + 1e-12);
+
+// Builds the overview from consecutive pieces of a file's samples, so long files never have
+// to be in memory whole
+export class AudioOverviewBuilder {
+  private sampleRate: number;
+  private totalSamples: number;
+  private frameSamples: number;
+  private framePower: Float32Array;
+  private frameZcr: Float32Array;
+  private frame = 0;
+  // Running sums of the frame being filled
+  private filled = 0;
+  private sum = 0;
+  private crossings = 0;
+  private previous = 0;
+
+  constructor(sampleRate: number, totalSamples: number) {
+    this.sampleRate = sampleRate;
+    this.totalSamples = totalSamples;
+    this.frameSamples = Math.max(1, Math.round(FRAME_DURATION * sampleRate));
+    const frameCount = Math.ceil(totalSamples / this.frameSamples);
+    this.framePower = new Float32Array(frameCount);
+    this.frameZcr = new Float32Array(frameCount);
+  }
+
+  add(samples: Float32Array) {
+    for (let i = 0; i < samples.length; i++) {
+      const value = samples[i];
+      if (this.filled === 0) this.previous = value;
+      this.sum += value * value;
+      if ((value >= 0) !== (this.previous >= 0)) this.crossings++;
+      this.previous = value;
+      if (++this.filled === this.frameSamples) this.endFrame();
+    }
+  }
+
+  finish(): AudioOverview {
+    if (this.filled > 0) this.endFrame();
+    const { sampleRate, frameSamples, framePower, frameZcr } = this;
+    const frameCount = this.frame;
+    const duration = this.totalSamples / sampleRate;
+    const binDuration = Math.max(MIN_BIN_DURATION, duration / MAX_BINS);
+    const binCount = Math.max(1, Math.ceil(duration / binDuration));
+
+    let maxFramePower = 0;
+    for (let f = 0; f < frameCount; f++) {
+      if (framePower[f] > maxFramePower) maxFramePower = framePower[f];
+    }
+
+    const maxDb = toDb(maxFramePower);
+    const binPower = new Float64Array(binCount);
+    const binFrames = new Uint32Array(binCount);
+    const binVoiced = new Uint32Array(binCount);
+    for (let f = 0; f < frameCount; f++) {
+      const bin = Math.min(binCount - 1, Math.floor((f * frameSamples) / sampleRate / binDuration));
+      binPower[bin] += framePower[f];
+      binFrames[bin]++;
+      if (toDb(framePower[f]) - maxDb > VOICING_FLOOR_DB && frameZcr[f] < MAX_VOICED_ZCR) binVoiced[bin]++;
+    }
+
+    const energy: number[] = [];
+    const voicing: number[] = [];
+    for (let b = 0; b < binCount; b++) {
+      const frames = Math.max(1, binFrames[b]);
+      const relativeDb = toDb(binPower[b] / frames) - maxDb;
+      energy.push(Math.max(0, Math.min(1, 1 + relativeDb / DYNAMIC_RANGE_DB)));
+      voicing.push(binVoiced[b] / frames);
+    }
+
+    return { binDuration, energy, voicing };
+  }
+
+  private endFrame() {
+    if (this.frame < this.framePower.length) {
+      this.framePower[this.frame] = this.sum / this.filled;
+      this.frameZcr[this.frame] = this.crossings / this.filled;
+      this.frame++;
+    }
+    this.filled = 0;
+    this.sum = 0;
+    this.crossings = 0;
+  }
+}
+
+export function computeAudioOverview(samples: Float32Array, sampleRate: number): AudioOverview {
+  const builder = new AudioOverviewBuilder(sampleRate, samples.length);
+  builder.add(samples);
+  return builder.finish();
+}
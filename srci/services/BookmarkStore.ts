@@ -0,0 +1,52 @@
+import { BOOKMARK_STORE, openDatabase, requestToPromise, transactionDone } from './Database';
+
+export interface Bookmark {
+  id: string;
+  // Content hash of the native media file (see FileHash)
+  fileHash: string;
+  name: string;
+  // Loop region on the media timeline, in seconds
+  start: number;
+  end: number;
+  note: string;
+  tags: string[];
+  // Position in the list, ascending
+  order: number;
+  createdAt: number;
+}
+
+export function createBookmarkId(): string {
+  return typeof crypto.randomUUID === 'function'
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+// Split a comma separated tag string, dropping duplicates and blanks
+export function parseTags(input: string): string[] {
+  return Array.from(new Set(input.split(',').map(tag => tag.trim()).filter(tag => tag !== '')));
+}
+
+// All bookmarks of one media file, in list order
+export async function loadBookmarks(fileHash: string): Promise<Bookmark[]> {
+  const db = await openDatabase();
+  const store = db.transaction(BOOKMARK_STORE, 'readonly').objectStore(BOOKMARK_STORE);
+  const bookmarks = await requestToPromise<Bookmark[]>(store.index('fileHash').getAll(fileHash));
+  return bookmarks.sort((a, b) => a.order - b.order || a.createdAt - b.createdAt);
+}
+
+// Insert or update bookmarks in a single transaction (used for edits and reordering)
+export async function saveBookmarks(bookmarks: Bookmark[]): Promise<void> {
+  if (bookmarks.length === 0) return;
+  const db = await openDatabase();
+  const transaction = db.transaction(BOOKMARK_STORE, 'readwrite');
+  const store = transaction.objectStore(BOOKMARK_STORE);
+  bookmarks.forEach(bookmark => store.put(bookmark));
+  await transactionDone(transaction);
+}
+
+export async function deleteBookmark(id: string): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction(BOOKMARK_STORE, 'readwrite');
+  transaction.objectStore(BOOKMARK_STORE).delete(id);
+  await transactionDone(transaction);
+}
@@ -0,0 +1,34 @@
+// Which level layers are drawn beneath the pitch curves
+
+export interface ChartLayerSettings {
+  waveform: boolean;
+  intensity: boolean;
+}
+
+export const DEFAULT_CHART_LAYER_SETTINGS: ChartLayerSettings = { waveform: false, intensity: false };
+
+const STORAGE_KEY = 'chartLayerSettings';
+
+export function loadChartLayerSettings(): ChartLayerSettings {
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY);
+    if (stored) {
+      const parsed = JSON.parse(stored) as Partial<ChartLayerSettings>;
+      return {
+        waveform: typeof parsed.waveform === 'boolean' ? parsed.waveform : DEFAULT_CHART_LAYER_SETTINGS.waveform,
+        intensity: typeof parsed.intensity === 'boolean' ? parsed.intensity : DEFAULT_CHART_LAYER_SETTINGS.intensity,
+      };
+    }
+  } catch (error) {
+    console.warn('[ChartLayers] Could not read stored layer settings:', error);
+  }
+  return DEFAULT_CHART_LAYER_SETTINGS;
+}
+
+export function saveChartLayerSettings(settings: ChartLayerSettings) {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.warn('[ChartLayers] Could not store layer settings:', error);
+  }
+}
@@ -0,0 +1,75 @@
+// Shared IndexedDB database for everything the app keeps per media file
+const DB_NAME = 'pitch-accent-web';
+const DB_VERSION = 3;
+
+export const BOOKMARK_STORE = 'bookmarks';
+// One record per (file, analysis settings) pitch track, and the segments belonging to it
+export const PITCH_TRACK_STORE = 'pitchTracks';
+export const PITCH_SEGMENT_STORE = 'pitchSegments';
+// Decoded PCM of the open file, written once so it does not have to stay in memory
+export const PCM_CHUNK_STORE = 'pcmChunks';
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+function upgradeDatabase(db: IDBDatabase) {
+  if (!db.objectStoreNames.contains(BOOKMARK_STORE)) {
+    const store = db.createObjectStore(BOOKMARK_STORE, { keyPath: 'id' });
+    store.createIndex('fileHash', 'fileHash', { unique: false });
+  }
+  if (!db.objectStoreNames.contains(PITCH_TRACK_STORE)) {
+    db.createObjectStore(PITCH_TRACK_STORE, { keyPath: 'trackKey' });
+  }
+  if (!db.objectStoreNames.contains(PITCH_SEGMENT_STORE)) {
+    const store = db.createObjectStore(PITCH_SEGMENT_STORE, { keyPath: ['trackKey', 'index'] });
+    store.createIndex('trackKey', 'trackKey', { unique: false });
+  }
+  if (!db.objectStoreNames.contains(PCM_CHUNK_STORE)) {
+    const store = db.createObjectStore(PCM_CHUNK_STORE, { keyPath: ['spillKey', 'index'] });
+    store.createIndex('createdAt', 'createdAt', { unique: false });
+  }
+}
+
+// Open (and create or upgrade) the database once and share the connection
+export function openDatabase(): Promise<IDBDatabase> {
+  if (databasePromise) return databasePromise;
+
+  databasePromise = new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available'));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => upgradeDatabase(request.result);
+    request.onsuccess = () => {
+      const db = request.result;
+      // Let a newer tab upgrade the schema instead of blocking it
+      db.onversionchange = () => {
+        db.close();
+        databasePromise = null;
+      };
+      resolve(db);
+    };
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => console.warn('[Database] Upgrade blocked by another open tab');
+  });
+  // Allow a retry after a failed open
+  databasePromise.catch(() => {
+    databasePromise = null;
+  });
+  return databasePromise;
+}
+
+export function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new DOMException('Transaction aborted', 'AbortError'));
+  });
+}
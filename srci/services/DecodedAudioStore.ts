@@ -0,0 +1,399 @@
+import { AudioOverviewBuilder, computeAudioOverview } from './AudioOverview';
+import type { AudioOverview } from './AudioOverview';
+import { PCM_CHUNK_STORE, openDatabase, requestToPromise, transactionDone } from './Database';
+import { readWavChannel, readWavFormat } from './WavEncoder';
+import type { WavFormat } from './WavEncoder';
+
+export interface DecodedAudioStoreConfig {
+  // Length of each cached PCM chunk, normally the same as the pitch segment duration
+  chunkDuration: number;
+
+  // Maximum number of Float32 chunks kept in memory at once
+  maxCachedChunks: number;
+}
+
+export interface AudioRange {
+  samples: Float32Array;
+  sampleRate: number;
+  startSample: number;
+  totalSamples: number;
+}
+
+interface AudioInfo {
+  sampleRate: number;
+  totalSamples: number;
+  chunkSamples: number;
+}
+
+// Where chunks that are not in the memory cache are read from
+interface ChunkSource {
+  info: AudioInfo;
+  // Set when the whole file passed through memory while the source was opened
+  overview: AudioOverview | null;
+  readChunk(index: number): Promise<Float32Array>;
+  release(): void;
+}
+
+interface PcmChunkRecord {
+  spillKey: string;
+  index: number;
+  samples: Int16Array;
+  createdAt: number;
+}
+
+// Enough of the file to find the data chunk behind the usual metadata chunks
+const HEADER_SCAN_BYTES = 64 * 1024;
+// Spilled PCM left behind by a tab that was closed is removed after this long
+const STALE_SPILL_MS = 24 * 60 * 60 * 1000;
+
+// Holds mono PCM for the currently loaded file. Only `maxCachedChunks` Float32 chunks are
+// kept in memory and the least recently used one is evicted first. Misses are read from:
+// - WAV files: the sample bytes of that chunk, sliced straight from the file
+// - anything else: 16-bit PCM spilled to IndexedDB after the one and only decode. Browsers
+//   cannot decode a compressed file in ranges, so that decode briefly holds the whole track.
+export class DecodedAudioStore {
+  private config: DecodedAudioStoreConfig;
+  private audioContext: AudioContext;
+  private file: File | null = null;
+  private source: ChunkSource | null = null;
+  private pendingSource: Promise<ChunkSource> | null = null;
+  // Map iteration order doubles as the LRU order (oldest first)
+  private chunks: Map<number, Float32Array> = new Map();
+  // Chunk reads in flight, shared by concurrent requests
+  private pendingChunks: Map<number, Promise<Float32Array>> = new Map();
+  private decodeCount = 0;
+  private overview: AudioOverview | null = null;
+  private pendingOverview: Promise<AudioOverview | null> | null = null;
+
+  constructor(audioContext: AudioContext, config: DecodedAudioStoreConfig) {
+    this.audioContext = audioContext;
+    this.config = config;
+  }
+
+  load(file: File) {
+    this.clear();
+    this.file = file;
+  }
+
+  clear() {
+    this.source?.release();
+    this.file = null;
+    this.source = null;
+    this.pendingSource = null;
+    this.chunks.clear();
+    this.pendingChunks.clear();
+    this.decodeCount = 0;
+    this.overview = null;
+    this.pendingOverview = null;
+  }
+
+  getSampleRate(): number | null {
+    return this.source?.info.sampleRate ?? null;
+  }
+
+  // Whole-file decodes so far; WAV files are never decoded
+  getDecodeCount(): number {
+    return this.decodeCount;
+  }
+
+  getOverview(): AudioOverview | null {
+    return this.overview;
+  }
+
+  // Resolves with the overview of the loaded file. WAV files are read through once for it,
+  // in the background, so callers should not wait for it before showing the first segments.
+  loadOverview(): Promise<AudioOverview | null> {
+    const file = this.file;
+    if (!file) return Promise.resolve(null);
+    if (!this.pendingOverview) {
+      const promise = this.buildOverview(file);
+      this.pendingOverview = promise;
+      // Let a failed read be retried
+      promise.catch(() => {
+        if (this.pendingOverview === promise) this.pendingOverview = null;
+      });
+    }
+    return this.pendingOverview;
+  }
+
+  // Returns the samples between startTime and endTime, plus `extraSamples` of lookahead
+  // so analysis frames that straddle the end of a range can still be filled
+  async getRange(startTime: number, endTime: number, extraSamples = 0): Promise<AudioRange> {
+    const file = this.file;
+    if (!file) throw new Error('No file loaded');
+
+    const source = await this.open(file);
+    const { info } = source;
+
+    const startSample = Math.max(0, Math.floor(startTime * info.sampleRate));
+    const endSample = Math.min(info.totalSamples, Math.floor(endTime * info.sampleRate) + extraSamples);
+    const result = (samples: Float32Array): AudioRange => ({
+      samples,
+      sampleRate: info.sampleRate,
+      startSample,
+      totalSamples: info.totalSamples
+    });
+    if (endSample <= startSample) return result(new Float32Array(0));
+
+    const firstChunk = Math.floor(startSample / info.chunkSamples);
+    const lastChunk = Math.floor((endSample - 1) / info.chunkSamples);
+    // A range larger than the cache budget is copied chunk by chunk without caching it
+    const cacheChunks = lastChunk - firstChunk + 1 <= this.config.maxCachedChunks;
+
+    const samples = new Float32Array(endSample - startSample);
+    for (let index = firstChunk; index <= lastChunk; index++) {
+      const chunk = await this.getChunk(source, index, cacheChunks);
+      if (this.source !== source) throw new Error('Audio file changed while reading');
+      const chunkStart = index * info.chunkSamples;
+      const from = Math.max(startSample, chunkStart);
+      const to = Math.min(endSample, chunkStart + chunk.length);
+      samples.set(chunk.subarray(from - chunkStart, to - chunkStart), from - startSample);
+    }
+
+    return result(samples);
+  }
+
+  private async getChunk(source: ChunkSource, index: number, cache: boolean): Promise<Float32Array> {
+    const cached = this.touch(index);
+    if (cached) return cached;
+
+    let pending = this.pendingChunks.get(index);
+    if (!pending) {
+      pending = source.readChunk(index);
+      this.pendingChunks.set(index, pending);
+    }
+    let chunk: Float32Array;
+    try {
+      chunk = await pending;
+    } finally {
+      if (this.pendingChunks.get(index) === pending) this.pendingChunks.delete(index);
+    }
+    if (cache && this.source === source) this.cacheChunk(index, chunk);
+    return chunk;
+  }
+
+  // Mark a chunk as most recently used and return it
+  private touch(index: number): Float32Array | undefined {
+    const chunk = this.chunks.get(index);
+    if (chunk) {
+      this.chunks.delete(index);
+      this.chunks.set(index, chunk);
+    }
+    return chunk;
+  }
+
+  private cacheChunk(index: number, chunk: Float32Array) {
+    this.chunks.delete(index);
+    this.chunks.set(index, chunk);
+    while (this.chunks.size > this.config.maxCachedChunks) {
+      this.chunks.delete(this.chunks.keys().next().value as number);
+    }
+  }
+
+  // Open the file once; concurrent callers share the same source
+  private async open(file: File): Promise<ChunkSource> {
+    if (this.source) return this.source;
+    if (!this.pendingSource) this.pendingSource = this.createSource(file);
+
+    const promise = this.pendingSource;
+    try {
+      return await promise;
+    } catch (error) {
+      // Let a failed decode be retried by the next request
+      if (this.pendingSource === promise) this.pendingSource = null;
+      throw error;
+    }
+  }
+
+  private async createSource(file: File): Promise<ChunkSource> {
+    const header = await file.slice(0, HEADER_SCAN_BYTES).arrayBuffer();
+    const format = readWavFormat(header, file.size);
+    const source = format
+      ? new WavChunkSource(file, format, this.config.chunkDuration)
+      : await this.decodeAndSpill(file);
+
+    // A different file may have been loaded while we were decoding
+    if (this.file !== file) {
+      source.release();
+      throw new Error('Audio file changed while decoding');
+    }
+    this.source = source;
+    this.overview = source.overview ?? this.overview;
+    return source;
+  }
+
+  private async decodeAndSpill(file: File): Promise<SpilledChunkSource> {
+    this.decodeCount++;
+    console.log(`[DecodedAudioStore] Decoding ${file.name}`);
+    const audioBuffer = await this.audioContext.decodeAudioData(await file.arrayBuffer());
+    if (this.file !== file) throw new Error('Audio file changed while decoding');
+
+    const channelData = audioBuffer.getChannelData(0);
+    const sampleRate = audioBuffer.sampleRate;
+    const info: AudioInfo = {
+      sampleRate,
+      totalSamples: channelData.length,
+      chunkSamples: Math.max(1, Math.round(this.config.chunkDuration * sampleRate))
+    };
+    const source = new SpilledChunkSource(info, computeAudioOverview(channelData, sampleRate));
+    await source.write(channelData);
+    if (this.file !== file) {
+      source.release();
+      throw new Error('Audio file changed while decoding');
+    }
+
+    // The first chunks are usually asked for next; keep them while the samples are at hand
+    const chunkCount = Math.ceil(info.totalSamples / info.chunkSamples);
+    for (let index = 0; index < Math.min(chunkCount, this.config.maxCachedChunks); index++) {
+      const start = index * info.chunkSamples;
+      this.cacheChunk(index, channelData.slice(start, Math.min(start + info.chunkSamples, info.totalSamples)));
+    }
+    return source;
+  }
+
+  private async buildOverview(file: File): Promise<AudioOverview | null> {
+    const source = await this.open(file);
+    if (this.overview) return this.overview;
+
+    const { info } = source;
+    const builder = new AudioOverviewBuilder(info.sampleRate, info.totalSamples);
+    const chunkCount = Math.ceil(info.totalSamples / info.chunkSamples);
+    for (let index = 0; index < chunkCount; index++) {
+      builder.add(this.chunks.get(index) ?? (await source.readChunk(index)));
+      if (this.source !== source) return null;
+    }
+    this.overview = builder.finish();
+    return this.overview;
+  }
+}
+
+// Reads the sample bytes of each chunk from an uncompressed WAV file
+class WavChunkSource implements ChunkSource {
+  info: AudioInfo;
+  overview = null;
+  private file: File;
+  private format: WavFormat;
+
+  constructor(file: File, format: WavFormat, chunkDuration: number) {
+    this.file = file;
+    this.format = format;
+    this.info = {
+      sampleRate: format.sampleRate,
+      totalSamples: Math.floor(format.dataBytes / format.blockAlign),
+      chunkSamples: Math.max(1, Math.round(chunkDuration * format.sampleRate))
+    };
+    console.log(`[DecodedAudioStore] Reading ${file.name} as ${format.sampleRate} Hz WAV without decoding`);
+  }
+
+  async readChunk(index: number): Promise<Float32Array> {
+    const { info, format } = this;
+    const start = index * info.chunkSamples;
+    const end = Math.min(start + info.chunkSamples, info.totalSamples);
+    const bytes = await this.file
+      .slice(format.dataOffset + start * format.blockAlign, format.dataOffset + end * format.blockAlign)
+      .arrayBuffer();
+    return readWavChannel(bytes, format);
+  }
+
+  release() {}
+}
+
+// Keeps decoded chunks as 16-bit PCM in IndexedDB, or in memory if IndexedDB cannot be used
+class SpilledChunkSource implements ChunkSource {
+  info: AudioInfo;
+  overview: AudioOverview;
+  private spillKey = createSpillKey();
+  private fallback: Map<number, Int16Array> | null = null;
+
+  constructor(info: AudioInfo, overview: AudioOverview) {
+    this.info = info;
+    this.overview = overview;
+  }
+
+  async write(channelData: Float32Array) {
+    const { chunkSamples, totalSamples } = this.info;
+    const chunkAt = (start: number) => toInt16(channelData.subarray(start, Math.min(start + chunkSamples, totalSamples)));
+    try {
+      deleteStaleSpills().catch(error => console.warn('[DecodedAudioStore] Could not remove old decoded audio:', error));
+      const db = await openDatabase();
+      // One transaction per chunk, so only one 16-bit copy exists at a time
+      for (let start = 0, index = 0; start < totalSamples; start += chunkSamples, index++) {
+        const transaction = db.transaction(PCM_CHUNK_STORE, 'readwrite');
+        const record: PcmChunkRecord = { spillKey: this.spillKey, index, samples: chunkAt(start), createdAt: Date.now() };
+        transaction.objectStore(PCM_CHUNK_STORE).put(record);
+        await transactionDone(transaction);
+      }
+    } catch (error) {
+      console.warn('[DecodedAudioStore] Could not store decoded audio in IndexedDB, keeping it in memory:', error);
+      this.release();
+      this.fallback = new Map();
+      for (let start = 0, index = 0; start < totalSamples; start += chunkSamples, index++) {
+        this.fallback.set(index, chunkAt(start));
+      }
+    }
+  }
+
+  async readChunk(index: number): Promise<Float32Array> {
+    let pcm = this.fallback?.get(index);
+    if (!this.fallback) {
+      const db = await openDatabase();
+      const store = db.transaction(PCM_CHUNK_STORE, 'readonly').objectStore(PCM_CHUNK_STORE);
+      const record = await requestToPromise<PcmChunkRecord | undefined>(store.get([this.spillKey, index]));
+      pcm = record?.samples;
+    }
+    if (!pcm) throw new Error(`Decoded audio chunk ${index} is missing`);
+    return toFloat32(pcm);
+  }
+
+  release() {
+    if (this.fallback) {
+      this.fallback = null;
+      return;
+    }
+    const spillKey = this.spillKey;
+    openDatabase()
+      .then(db => {
+        const transaction = db.transaction(PCM_CHUNK_STORE, 'readwrite');
+        transaction.objectStore(PCM_CHUNK_STORE).delete(IDBKeyRange.bound([spillKey, -Infinity], [spillKey, Infinity]));
+        return transactionDone(transaction);
+      })
+      .catch(error => console.warn('[DecodedAudioStore] Could not remove decoded audio:', error));
+  }
+}
+
+function createSpillKey(): string {
+  return typeof crypto.randomUUID === 'function'
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+async function deleteStaleSpills() {
+  const db = await openDatabase();
+  const transaction = db.transaction(PCM_CHUNK_STORE, 'readwrite');
+  const stale = transaction.objectStore(PCM_CHUNK_STORE).index('createdAt').openKeyCursor(IDBKeyRange.upperBound(Date.now() - STALE_SPILL_MS));
+  stale.onsuccess = () => {
+    const cursor = stale.result;
+    if (!cursor) return;
+    transaction.objectStore(PCM_CHUNK_STORE).delete(cursor.primaryKey);
+    cursor.continue();
+  };
+  await transactionDone(transaction);
+}
+
+function toInt16(samples: Float32Array): Int16Array {
+  const pcm = new Int16Array(samples.length);
+  for (let i = 0; i < samples.length; i++) {
+    const value = Math.max(-1, Math.min(1, samples[i]));
+    pcm[i] = value < 0 ? value * 0x8000 : value * 0x7fff;
+  }
+  return pcm;
+}
+
+function toFloat32(pcm: Int16Array): Float32Array {
+  const samples = new Float32Array(pcm.length);
+  for (let i = 0; i < pcm.length; i++) {
+    const value = pcm[i];
+    samples[i] = value < 0 ? value / 0x8000 : value / 0x7fff;
+  }
+  return samples;
+}
@@ -0,0 +1,65 @@
+// The file is read in pieces of this size, so long videos are never held in memory whole
+const CHUNK_BYTES = 8 * 1024 * 1024;
+
+interface PendingHash {
+  hash: Promise<string>;
+  controller: AbortController;
+  // Callers still waiting with a signal; the read stops once all of them have given up
+  waiters: number;
+}
+
+// Files hashed in this session; the pitch cache and the bookmarks both ask for the same file
+const hashes = new WeakMap<Blob, PendingHash>();
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer), byte => byte.toString(16).padStart(2, '0')).join('');
+
+// Content hash of a media file, stable across renames and reloads. Every chunk is hashed
+// with SHA-256 and the result is the SHA-256 of the size plus the chunk digests in order,
+// so every byte of the file counts. Callers that pass `signal` stop waiting when it aborts;
+// the read itself is only abandoned when no caller is left that still wants the hash.
+export function hashFile(file: Blob, signal?: AbortSignal): Promise<string> {
+  signal?.throwIfAborted();
+  let pending = hashes.get(file);
+  if (!pending) {
+    const controller = new AbortController();
+    const hash = computeHash(file, controller.signal);
+    pending = { hash, controller, waiters: 0 };
+    hashes.set(file, pending);
+    // Let a failed or abandoned read be retried
+    hash.catch(() => {
+      if (hashes.get(file)?.hash === hash) hashes.delete(file);
+    });
+  }
+  if (!signal) {
+    // Nobody can stop this caller waiting, so the read has to finish
+    pending.waiters = Infinity;
+    return pending.hash;
+  }
+
+  const entry = pending;
+  entry.waiters++;
+  return new Promise<string>((resolve, reject) => {
+    const onAbort = () => {
+      entry.waiters--;
+      if (entry.waiters === 0) {
+        entry.controller.abort();
+        if (hashes.get(file) === entry) hashes.delete(file);
+      }
+      reject(signal.reason);
+    };
+    signal.addEventListener('abort', onAbort, { once: true });
+    entry.hash.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
+
+async function computeHash(file: Blob, signal: AbortSignal): Promise<string> {
+  const parts: BlobPart[] = [new TextEncoder().encode(String(file.size))];
+  for (let offset = 0; offset < file.size; offset += CHUNK_BYTES) {
+    const chunk = await file.slice(offset, offset + CHUNK_BYTES).arrayBuffer();
+    signal.throwIfAborted();
+    parts.push(await crypto.subtle.digest('SHA-256', chunk));
+  }
+  const digest = await crypto.subtle.digest('SHA-256', await new Blob(parts).arrayBuffer());
+  return toHex(digest);
+}
@@ -0,0 +1,49 @@
+import { MicrophoneAnalyser } from './MicrophoneAnalyser';
+import { toDbfs } from './RecordingQuality';
+
+const POLL_INTERVAL_MS = 50;
+// Longer than the poll interval, so short peaks between polls are not missed
+const ANALYSER_SIZE = 4096;
+
+export interface InputLevel {
+  // dBFS of the most recent analyser window
+  rmsDb: number;
+  peakDb: number;
+}
+
+// Reports the microphone level a few times a second
+export class InputLevelMeter {
+  private onLevel: (level: InputLevel) => void;
+  private microphone: MicrophoneAnalyser | null = null;
+  private buffer = new Float32Array(ANALYSER_SIZE);
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(onLevel: (level: InputLevel) => void) {
+    this.onLevel = onLevel;
+  }
+
+  start(stream: MediaStream) {
+    this.stop();
+    this.microphone = new MicrophoneAnalyser(stream, ANALYSER_SIZE);
+    this.timer = setInterval(() => this.poll(), POLL_INTERVAL_MS);
+  }
+
+  stop() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+    this.microphone?.close();
+    this.microphone = null;
+  }
+
+  private poll() {
+    if (!this.microphone?.read(this.buffer)) return;
+    let peak = 0;
+    let sum = 0;
+    for (let i = 0; i < this.buffer.length; i++) {
+      const value = Math.abs(this.buffer[i]);
+      if (value > peak) peak = value;
+      sum += this.buffer[i] * this.buffer[i];
+    }
+    this.onLevel({ rmsDb: toDbfs(Math.sqrt(sum / this.buffer.length)), peakDb: toDbfs(peak) });
+  }
+}
@@ -0,0 +1,82 @@
+import { MicrophoneAnalyser } from './MicrophoneAnalyser';
+import { createPitchTracker } from './PitchTracker';
+import type { PitchTracker } from './PitchTracker';
+import type { PitchAnalysisSettings } from './PitchAnalysisSettings';
+
+// How often the microphone is sampled for a new pitch estimate
+const POLL_INTERVAL_MS = 25;
+// Median over the last few voiced estimates, to hide single-frame octave jumps
+const MEDIAN_FRAMES = 3;
+
+export interface LivePitchFrame {
+  // Seconds since start(), at the centre of the analysed frame
+  time: number;
+  pitch: number | null;
+  clarity: number;
+}
+
+// Real-time F0 of a microphone stream: the shared microphone analyser provides the latest
+// frame of samples, which goes through the same frame-level tracker as the offline analysis.
+export class LivePitchTracker {
+  private settings: PitchAnalysisSettings;
+  private onFrame: (frame: LivePitchFrame) => void;
+  private tracker: PitchTracker;
+  private microphone: MicrophoneAnalyser | null = null;
+  private buffer: Float32Array<ArrayBuffer>;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private startTime = 0;
+  private recentPitches: number[] = [];
+
+  constructor(settings: PitchAnalysisSettings, onFrame: (frame: LivePitchFrame) => void) {
+    this.settings = settings;
+    this.onFrame = onFrame;
+    this.tracker = createPitchTracker(settings.algorithm, {
+      frameSize: settings.frameSize,
+      minPitch: settings.minPitch,
+      maxPitch: settings.maxPitch,
+    });
+    this.buffer = new Float32Array(settings.frameSize);
+  }
+
+  start(stream: MediaStream) {
+    this.stop();
+    const microphone = new MicrophoneAnalyser(stream, this.settings.frameSize);
+    this.microphone = microphone;
+    this.startTime = microphone.currentTime;
+    this.recentPitches = [];
+    this.timer = setInterval(() => this.poll(), POLL_INTERVAL_MS);
+    console.log(`[LivePitchTracker] Started at ${microphone.sampleRate} Hz, frame ${this.settings.frameSize}`);
+  }
+
+  stop() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+    this.microphone?.close();
+    this.microphone = null;
+  }
+
+  private poll() {
+    const microphone = this.microphone;
+    if (!microphone?.read(this.buffer)) return;
+
+    const [pitch, clarity] = this.tracker.findPitch(this.buffer, microphone.sampleRate);
+    const { minPitch, maxPitch, minClarity } = this.settings;
+    const voiced = pitch >= minPitch && pitch <= maxPitch && clarity >= minClarity;
+
+    let smoothed: number | null = null;
+    if (voiced) {
+      this.recentPitches = [...this.recentPitches, pitch].slice(-MEDIAN_FRAMES);
+      const sorted = [...this.recentPitches].sort((a, b) => a - b);
+      smoothed = sorted[Math.floor(sorted.length / 2)];
+    } else {
+      this.recentPitches = [];
+    }
+
+    const frameCentre = this.settings.frameSize / 2 / microphone.sampleRate;
+    this.onFrame({
+      time: Math.max(0, microphone.currentTime - this.startTime - frameCentre),
+      pitch: smoothed,
+      clarity,
+    });
+  }
+}
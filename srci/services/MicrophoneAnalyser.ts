@@ -0,0 +1,82 @@
+// Latest samples of a microphone stream, for the voice trigger, the level meter and the live
+// pitch tracker. All readers of one stream share a single AudioContext and AnalyserNode:
+// mobile browsers cap the number of open contexts and throttle the ones beyond that.
+
+const MIN_ANALYSER_SIZE = 1024;
+// Largest fftSize an AnalyserNode accepts
+const MAX_ANALYSER_SIZE = 32768;
+
+interface SharedAnalyser {
+  context: AudioContext;
+  source: MediaStreamAudioSourceNode;
+  analyser: AnalyserNode;
+  // Whole analyser window; readers get its most recent part
+  window: Float32Array<ArrayBuffer>;
+  readers: number;
+}
+
+const shared = new WeakMap<MediaStream, SharedAnalyser>();
+
+function acquire(stream: MediaStream, size: number): SharedAnalyser {
+  let entry = shared.get(stream);
+  if (!entry) {
+    const context = new (window.AudioContext || window.webkitAudioContext)();
+    const source = context.createMediaStreamSource(stream);
+    const analyser = context.createAnalyser();
+    analyser.fftSize = MIN_ANALYSER_SIZE;
+    source.connect(analyser);
+    entry = { context, source, analyser, window: new Float32Array(MIN_ANALYSER_SIZE), readers: 0 };
+    shared.set(stream, entry);
+  }
+  // The window has to cover the largest read of any reader
+  if (size > entry.analyser.fftSize) {
+    entry.analyser.fftSize = Math.min(MAX_ANALYSER_SIZE, 2 ** Math.ceil(Math.log2(size)));
+    entry.window = new Float32Array(entry.analyser.fftSize);
+  }
+  entry.readers++;
+  return entry;
+}
+
+export class MicrophoneAnalyser {
+  private stream: MediaStream;
+  private entry: SharedAnalyser | null;
+
+  // `frameSize` is the longest read this reader will make
+  constructor(stream: MediaStream, frameSize: number) {
+    this.stream = stream;
+    this.entry = acquire(stream, frameSize);
+  }
+
+  get sampleRate(): number {
+    return this.entry?.context.sampleRate ?? 0;
+  }
+
+  // Seconds on the shared context's clock
+  get currentTime(): number {
+    return this.entry?.context.currentTime ?? 0;
+  }
+
+  // Fill `frame` with the most recent samples. Returns false, and nothing is read, while the
+  // context is not running; it starts suspended when created outside a user gesture.
+  read(frame: Float32Array): boolean {
+    const entry = this.entry;
+    if (!entry) return false;
+    if (entry.context.state !== 'running') {
+      entry.context.resume().catch(() => {});
+      return false;
+    }
+    entry.analyser.getFloatTimeDomainData(entry.window);
+    frame.set(entry.window.subarray(entry.window.length - frame.length));
+    return true;
+  }
+
+  close() {
+    const entry = this.entry;
+    if (!entry) return;
+    this.entry = null;
+    if (--entry.readers > 0) return;
+    shared.delete(this.stream);
+    entry.source.disconnect();
+    entry.context.close().catch(error => console.warn('[MicrophoneAnalyser] Could not close audio context:', error));
+  }
+}
@@ -0,0 +1,43 @@
+// Small kana that merge with the preceding kana into one mora (きゃ, ファ, ...).
+// っ/ッ, ん/ン and the long vowel mark ー are morae of their own.
+const SMALL_KANA = new Set([
+  'ゃ', 'ゅ', 'ょ', 'ぁ', 'ぃ', 'ぅ', 'ぇ', 'ぉ', 'ゎ',
+  'ャ', 'ュ', 'ョ', 'ァ', 'ィ', 'ゥ', 'ェ', 'ォ', 'ヮ',
+]);
+
+const isKana = (char: string) => /[ぁ-ゖァ-ヺー]/.test(char);
+
+// Split a kana string into morae, e.g. 'きょうと' -> ['きょ', 'う', 'と'].
+// Anything that is not kana (spaces, punctuation, kanji) is ignored.
+export function splitMorae(kana: string): string[] {
+  const morae: string[] = [];
+  for (const char of kana) {
+    if (!isKana(char)) continue;
+    if (SMALL_KANA.has(char) && morae.length > 0) {
+      morae[morae.length - 1] += char;
+    } else {
+      morae.push(char);
+    }
+  }
+  return morae;
+}
+
+// Longest word the accent classifier is asked to fit; it tries every accent position
+export const MAX_MORAE = 20;
+
+// Read a mora count from user input: either a plain number or kana to count
+export function parseMoraInput(input: string): { count: number; morae: string[] } | null {
+  const trimmed = input.trim();
+  if (/^\d+$/.test(trimmed)) {
+    const count = Number(trimmed);
+    return count > 0 && count <= MAX_MORAE ? { count, morae: [] } : null;
+  }
+  const morae = splitMorae(trimmed);
+  return morae.length > 0 && morae.length <= MAX_MORAE ? { count: morae.length, morae } : null;
+}
+
+// Evenly spaced boundaries (count + 1 times) between start and end, as a first guess
+// before the learner adjusts them
+export function evenMoraBoundaries(start: number, end: number, count: number): number[] {
+  return Array.from({ length: count + 1 }, (_, i) => start + ((end - start) * i) / count);
+}
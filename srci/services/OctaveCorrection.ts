@@ -0,0 +1,165 @@
+export interface OctaveCorrectionOptions {
+  // Corrected pitches must stay inside the analysis band
+  minPitch: number;
+  maxPitch: number;
+}
+
+export interface OctaveCorrectionResult {
+  pitches: (number | null)[];
+  // Per-frame confidence (0-1); 0 for unvoiced frames
+  confidence: number[];
+}
+
+// Each frame may be kept, halved or doubled
+const OCTAVE_FACTORS = [0.5, 1, 2];
+
+// Pitch movement (semitones per frame) that counts as a normal glide; larger jumps are
+// penalised quadratically. At the usual 256 sample hop a frame is ~6 ms.
+const JUMP_SCALE = 3;
+
+// Cost of moving a frame to another octave, scaled up for frames the detector was sure about
+const OCTAVE_SHIFT_COST = 1;
+
+// Pull towards the speaker's median pitch, per octave of distance. Helps repair long
+// plateaus at the wrong octave where continuity alone cannot decide.
+const ANCHOR_WEIGHT = 0.5;
+
+// Voiced frames separated by more than this many unvoiced frames are tracked independently
+const MAX_GAP_FRAMES = 8;
+
+// Confidence multiplier for frames that had to be moved to another octave
+const CORRECTED_CONFIDENCE = 0.6;
+
+// Runs shorter than this are usually clicks or breath noise
+const MIN_RUN_FRAMES = 3;
+
+const semitones = (a: number, b: number) => 12 * Math.abs(Math.log2(a / b));
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+}
+
+// Repair octave halving/doubling errors with a Viterbi search over octave candidates.
+// `clarities` holds the detector clarity for every frame (ignored where the pitch is null).
+export function correctOctaveErrors(
+  pitches: (number | null)[],
+  clarities: number[],
+  options: OctaveCorrectionOptions
+): OctaveCorrectionResult {
+  const corrected: (number | null)[] = [...pitches];
+  const confidence: number[] = new Array(pitches.length).fill(0);
+
+  const voiced = pitches.flatMap((p, i) => (p !== null ? [i] : []));
+  if (voiced.length === 0) return { pitches: corrected, confidence };
+
+  const anchor = median(voiced.map(i => pitches[i] as number));
+
+  // Split the voiced frames into runs that are tracked independently
+  const runs: number[][] = [];
+  let run: number[] = [];
+  for (const index of voiced) {
+    if (run.length > 0 && index - run[run.length - 1] > MAX_GAP_FRAMES + 1) {
+      runs.push(run);
+      run = [];
+    }
+    run.push(index);
+  }
+  runs.push(run);
+
+  for (const frames of runs) {
+    const path = trackRun(frames, pitches, clarities, anchor, options);
+
+    frames.forEach((frameIndex, k) => {
+      const raw = pitches[frameIndex] as number;
+      const value = raw * OCTAVE_FACTORS[path[k]];
+      corrected[frameIndex] = value;
+
+      // Confidence combines detector clarity with how well the frame fits its neighbours
+      let worstJump = 0;
+      if (k > 0) {
+        const prev = frames[k - 1];
+        worstJump = Math.max(worstJump, semitones(value, corrected[prev] as number) / (frameIndex - prev));
+      }
+      if (k < frames.length - 1) {
+        const next = frames[k + 1];
+        const nextValue = (pitches[next] as number) * OCTAVE_FACTORS[path[k + 1]];
+        worstJump = Math.max(worstJump, semitones(value, nextValue) / (next - frameIndex));
+      }
+      let frameConfidence = Math.max(0, Math.min(1, clarities[frameIndex] ?? 0));
+      frameConfidence *= Math.exp(-0.5 * Math.pow(worstJump / JUMP_SCALE, 2));
+      if (path[k] !== 1) frameConfidence *= CORRECTED_CONFIDENCE;
+      if (frames.length < MIN_RUN_FRAMES) frameConfidence *= 0.5;
+      confidence[frameIndex] = frameConfidence;
+    });
+  }
+
+  const correctedCount = voiced.filter(i => corrected[i] !== pitches[i]).length;
+  if (correctedCount > 0) {
+    console.log(`[OctaveCorrection] Moved ${correctedCount} of ${voiced.length} voiced frames to another octave`);
+  }
+
+  return { pitches: corrected, confidence };
+}
+
+// Viterbi over the octave factors for one run; returns the chosen factor index per frame
+function trackRun(
+  frames: number[],
+  pitches: (number | null)[],
+  clarities: number[],
+  anchor: number,
+  options: OctaveCorrectionOptions
+): number[] {
+  const candidateCount = OCTAVE_FACTORS.length;
+
+  const observationCost = (frameIndex: number, candidate: number) => {
+    const value = (pitches[frameIndex] as number) * OCTAVE_FACTORS[candidate];
+    if (value < options.minPitch || value > options.maxPitch) return Infinity;
+    const clarity = clarities[frameIndex] ?? 0;
+    const shiftCost = OCTAVE_FACTORS[candidate] === 1 ? 0 : OCTAVE_SHIFT_COST * (0.25 + clarity);
+    return shiftCost + ANCHOR_WEIGHT * Math.pow(semitones(value, anchor) / 12, 2);
+  };
+
+  let costs = OCTAVE_FACTORS.map((_, c) => observationCost(frames[0], c));
+  const backPointers: number[][] = [];
+
+  for (let k = 1; k < frames.length; k++) {
+    const frameIndex = frames[k];
+    const prevIndex = frames[k - 1];
+    // Allow proportionally larger moves across short unvoiced gaps
+    const scale = JUMP_SCALE * (frameIndex - prevIndex);
+    const nextCosts: number[] = [];
+    const pointers: number[] = [];
+
+    for (let c = 0; c < candidateCount; c++) {
+      const value = (pitches[frameIndex] as number) * OCTAVE_FACTORS[c];
+      let best = Infinity;
+      let bestPrev = 1;
+      for (let p = 0; p < candidateCount; p++) {
+        if (!Number.isFinite(costs[p])) continue;
+        const prevValue = (pitches[prevIndex] as number) * OCTAVE_FACTORS[p];
+        const cost = costs[p] + Math.pow(semitones(value, prevValue) / scale, 2);
+        if (cost < best) {
+          best = cost;
+          bestPrev = p;
+        }
+      }
+      nextCosts.push(best + observationCost(frameIndex, c));
+      pointers.push(bestPrev);
+    }
+
+    costs = nextCosts;
+    backPointers.push(pointers);
+  }
+
+  // Trace back from the cheapest final state
+  let state = costs.indexOf(Math.min(...costs));
+  if (state < 0 || !Number.isFinite(costs[state])) state = 1;
+  const path: number[] = new Array(frames.length);
+  path[frames.length - 1] = state;
+  for (let k = backPointers.length - 1; k >= 0; k--) {
+    state = backPointers[k][state];
+    path[k] = state;
+  }
+  return path;
+}
@@ -0,0 +1,204 @@
+import { encodeWav } from './WavEncoder';
+
+// Raw PCM capture through an AudioWorklet, encoded as WAV when stopped. MediaRecorder only
+// offers lossy codecs that differ per browser, which shifts the detected pitch between devices.
+
+export type CaptureFormat = 'compressed' | 'wav';
+
+export interface CaptureSettings {
+  format: CaptureFormat;
+  // Sample rate of WAV captures
+  sampleRate: number;
+}
+
+export const CAPTURE_FORMATS: { id: CaptureFormat; label: string }[] = [
+  { id: 'compressed', label: 'Compressed (browser codec)' },
+  { id: 'wav', label: 'Uncompressed WAV' },
+];
+export const PCM_SAMPLE_RATE_OPTIONS = [16000, 22050, 44100, 48000];
+export const DEFAULT_CAPTURE_SETTINGS: CaptureSettings = { format: 'compressed', sampleRate: 44100 };
+
+const STORAGE_KEY = 'recorderCaptureSettings';
+const PROCESSOR_NAME = 'pcm-capture';
+// Samples collected in the worklet before they are posted to the main thread
+const POST_BLOCK_SIZE = 4096;
+// Give up waiting for the worklet's last block after this long
+const FLUSH_TIMEOUT_MS = 200;
+
+// Messages from the worklet: full blocks while recording, then the partly filled last block
+type CaptureMessage = { type: 'block' | 'flush'; samples: Float32Array };
+
+// Kept as source text and loaded from a blob URL, so the bundler does not need to know about it
+const PROCESSOR_SOURCE = `
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  constructor() {
+    super();
+    this.block = new Float32Array(${POST_BLOCK_SIZE});
+    this.filled = 0;
+    this.port.onmessage = () => {
+      this.port.postMessage({ type: 'flush', samples: this.block.slice(0, this.filled) });
+      this.filled = 0;
+    };
+  }
+
+  process(inputs) {
+    const channel = inputs[0] && inputs[0][0];
+    if (!channel) return true;
+    let offset = 0;
+    while (offset < channel.length) {
+      const count = Math.min(channel.length - offset, this.block.length - this.filled);
+      this.block.set(channel.subarray(offset, offset + count), this.filled);
+      this.filled += count;
+      offset += count;
+      if (this.filled === this.block.length) {
+        this.port.postMessage({ type: 'block', samples: this.block.slice() });
+        this.filled = 0;
+      }
+    }
+    return true;
+  }
+}
+registerProcessor('${PROCESSOR_NAME}', PcmCaptureProcessor);
+`;
+
+export function loadCaptureSettings(): CaptureSettings {
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY);
+    if (stored) {
+      const parsed = JSON.parse(stored) as Partial<CaptureSettings>;
+      const sampleRate = Number(parsed.sampleRate);
+      return {
+        format: CAPTURE_FORMATS.some(format => format.id === parsed.format) ? parsed.format as CaptureFormat : DEFAULT_CAPTURE_SETTINGS.format,
+        sampleRate: PCM_SAMPLE_RATE_OPTIONS.includes(sampleRate) ? sampleRate : DEFAULT_CAPTURE_SETTINGS.sampleRate,
+      };
+    }
+  } catch (error) {
+    console.warn('[PcmRecorder] Could not read stored capture settings:', error);
+  }
+  return DEFAULT_CAPTURE_SETTINGS;
+}
+
+export function saveCaptureSettings(settings: CaptureSettings) {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.warn('[PcmRecorder] Could not store capture settings:', error);
+  }
+}
+
+export function isPcmCaptureSupported(): boolean {
+  return typeof window.AudioContext !== 'undefined' && typeof AudioWorkletNode !== 'undefined';
+}
+
+// Band-limited sample rate conversion through an offline context
+async function resample(samples: Float32Array, fromRate: number, toRate: number): Promise<Float32Array> {
+  const offline = new OfflineAudioContext(1, Math.max(1, Math.ceil((samples.length * toRate) / fromRate)), toRate);
+  const buffer = offline.createBuffer(1, Math.max(1, samples.length), fromRate);
+  buffer.copyToChannel(samples, 0);
+  const source = offline.createBufferSource();
+  source.buffer = buffer;
+  source.connect(offline.destination);
+  source.start();
+  const rendered = await offline.startRendering();
+  return rendered.getChannelData(0);
+}
+
+export class PcmRecorder {
+  private context: AudioContext | null = null;
+  private source: MediaStreamAudioSourceNode | null = null;
+  private node: AudioWorkletNode | null = null;
+  private chunks: Float32Array[] = [];
+  private sampleRate = 0;
+
+  get isRecording(): boolean {
+    return this.node !== null;
+  }
+
+  // `sampleRate` is the rate of the resulting WAV. Browsers that cannot run the capture
+  // context at that rate record at their own rate and the audio is resampled on stop.
+  async start(stream: MediaStream, sampleRate: number) {
+    this.sampleRate = sampleRate;
+    this.chunks = [];
+
+    let context = new AudioContext({ sampleRate });
+    let source: MediaStreamAudioSourceNode;
+    try {
+      source = context.createMediaStreamSource(stream);
+    } catch (error) {
+      console.warn(`[PcmRecorder] Cannot capture at ${sampleRate} Hz directly, resampling afterwards:`, error);
+      context.close().catch(error => console.warn('[PcmRecorder] Could not close audio context:', error));
+      context = new AudioContext();
+      source = context.createMediaStreamSource(stream);
+    }
+
+    const moduleUrl = URL.createObjectURL(new Blob([PROCESSOR_SOURCE], { type: 'application/javascript' }));
+    try {
+      await context.audioWorklet.addModule(moduleUrl);
+    } catch (error) {
+      context.close().catch(error => console.warn('[PcmRecorder] Could not close audio context:', error));
+      throw error;
+    } finally {
+      URL.revokeObjectURL(moduleUrl);
+    }
+
+    const node = new AudioWorkletNode(context, PROCESSOR_NAME);
+    node.port.onmessage = (event: MessageEvent<CaptureMessage>) => this.chunks.push(event.data.samples);
+    source.connect(node);
+    // The node outputs silence; it only has to be pulled by the graph to run
+    node.connect(context.destination);
+    if (context.state !== 'running') await context.resume();
+
+    this.context = context;
+    this.source = source;
+    this.node = node;
+    console.log(`[PcmRecorder] Capturing at ${context.sampleRate} Hz`);
+  }
+
+  // Stop capturing and return the recording as WAV
+  async stop(): Promise<Blob> {
+    const { context, source, node } = this;
+    if (!context || !source || !node) throw new Error('PCM recorder is not running');
+    this.context = null;
+    this.source = null;
+    this.node = null;
+
+    // Ask the worklet for its partly filled block before tearing the graph down. Full blocks
+    // still in flight arrive first and are kept; only the flush reply ends the wait.
+    const lastBlock = new Promise<void>(resolve => {
+      const timer = setTimeout(() => {
+        console.warn('[PcmRecorder] No reply from the capture worklet, the end of the take may be missing');
+        resolve();
+      }, FLUSH_TIMEOUT_MS);
+      node.port.onmessage = (event: MessageEvent<CaptureMessage>) => {
+        this.chunks.push(event.data.samples);
+        if (event.data.type === 'flush') {
+          clearTimeout(timer);
+          resolve();
+        }
+      };
+    });
+    node.port.postMessage('flush');
+    await lastBlock;
+    source.disconnect();
+    node.disconnect();
+    context.close().catch(error => console.warn('[PcmRecorder] Could not close audio context:', error));
+
+    const length = this.chunks.reduce((sum, chunk) => sum + chunk.length, 0);
+    const samples = new Float32Array(length);
+    let offset = 0;
+    for (const chunk of this.chunks) {
+      samples.set(chunk, offset);
+      offset += chunk.length;
+    }
+    this.chunks = [];
+
+    if (context.sampleRate !== this.sampleRate) {
+      try {
+        return encodeWav(await resample(samples, context.sampleRate, this.sampleRate), this.sampleRate);
+      } catch (error) {
+        console.warn(`[PcmRecorder] Could not resample, keeping ${context.sampleRate} Hz:`, error);
+      }
+    }
+    return encodeWav(samples, context.sampleRate);
+  }
+}
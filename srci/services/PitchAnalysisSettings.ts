@@ -0,0 +1,99 @@
+import { isPitchAlgorithm } from './PitchTracker';
+import type { PitchAlgorithm } from './PitchTracker';
+
+export interface PitchAnalysisSettings {
+  // Frame-level F0 estimator
+  algorithm: PitchAlgorithm;
+
+  // Detected pitches outside this band (Hz) are treated as unvoiced
+  minPitch: number;
+  maxPitch: number;
+
+  // Minimum detector clarity (0-1) for a frame to count as voiced
+  minClarity: number;
+
+  // Window (in frames) of the first median filter pass
+  medianFilterSize: number;
+
+  // Analysis frame length and hop, in samples
+  frameSize: number;
+  hopSize: number;
+
+  // Window (in frames) of the final median + weighted average smoothing
+  smoothingWindow: number;
+}
+
+export const DEFAULT_PITCH_ANALYSIS_SETTINGS: PitchAnalysisSettings = {
+  algorithm: 'mpm',
+  minPitch: 60,
+  maxPitch: 500,
+  minClarity: 0.6,
+  medianFilterSize: 10,
+  frameSize: 2048,
+  hopSize: 256,
+  smoothingWindow: 25
+};
+
+// Starting points for voices that fall outside the default band
+export const PITCH_ANALYSIS_PRESETS: { id: string; label: string; settings: PitchAnalysisSettings }[] = [
+  { id: 'default', label: 'Default (60-500 Hz)', settings: DEFAULT_PITCH_ANALYSIS_SETTINGS },
+  {
+    id: 'low-voice',
+    label: 'Deep voice (40-300 Hz)',
+    settings: { ...DEFAULT_PITCH_ANALYSIS_SETTINGS, minPitch: 40, maxPitch: 300, frameSize: 4096 }
+  },
+  {
+    id: 'child',
+    label: 'Child / high voice (120-800 Hz)',
+    settings: { ...DEFAULT_PITCH_ANALYSIS_SETTINGS, minPitch: 120, maxPitch: 800, minClarity: 0.5, frameSize: 1024, hopSize: 128 }
+  }
+];
+
+// The pitch detector needs a power-of-two frame length
+export const FRAME_SIZE_OPTIONS = [1024, 2048, 4096];
+
+const STORAGE_KEY = 'pitchAnalysisSettings';
+
+const clamp = (value: number, min: number, max: number, fallback: number) =>
+  Number.isFinite(value) ? Math.min(max, Math.max(min, value)) : fallback;
+
+// Coerce user-entered values into a consistent, usable settings object
+export function sanitizePitchAnalysisSettings(settings: Partial<PitchAnalysisSettings>): PitchAnalysisSettings {
+  const defaults = DEFAULT_PITCH_ANALYSIS_SETTINGS;
+  const frameSize = FRAME_SIZE_OPTIONS.includes(Number(settings.frameSize)) ? Number(settings.frameSize) : defaults.frameSize;
+  const minPitch = Math.round(clamp(Number(settings.minPitch), 20, 1000, defaults.minPitch));
+  const maxPitch = Math.round(clamp(Number(settings.maxPitch), minPitch + 10, 2000, Math.max(defaults.maxPitch, minPitch + 10)));
+
+  return {
+    algorithm: isPitchAlgorithm(settings.algorithm) ? settings.algorithm : defaults.algorithm,
+    minPitch,
+    maxPitch,
+    minClarity: clamp(Number(settings.minClarity), 0, 1, defaults.minClarity),
+    medianFilterSize: Math.round(clamp(Number(settings.medianFilterSize), 1, 101, defaults.medianFilterSize)),
+    frameSize,
+    hopSize: Math.round(clamp(Number(settings.hopSize), 32, frameSize, defaults.hopSize)),
+    smoothingWindow: Math.round(clamp(Number(settings.smoothingWindow), 1, 201, defaults.smoothingWindow))
+  };
+}
+
+export function arePitchAnalysisSettingsEqual(a: PitchAnalysisSettings, b: PitchAnalysisSettings): boolean {
+  return (Object.keys(a) as (keyof PitchAnalysisSettings)[]).every(key => a[key] === b[key]);
+}
+
+export function loadPitchAnalysisSettings(): PitchAnalysisSettings {
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY);
+    if (stored) return sanitizePitchAnalysisSettings(JSON.parse(stored));
+  } catch (error) {
+    console.warn('[PitchAnalysisSettings] Could not read stored settings:', error);
+  }
+  return DEFAULT_PITCH_ANALYSIS_SETTINGS;
+}
+
+export function savePitchAnalysisSettings(settings: PitchAnalysisSettings) {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.warn('[PitchAnalysisSettings] Could not store settings:', error);
+  }
+}
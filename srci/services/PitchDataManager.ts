@@ -1,4 +1,12 @@
-import { PitchDetector } from 'pitchy';
+import { DecodedAudioStore } from './DecodedAudioStore';
+import type { AudioRange } from './DecodedAudioStore';
+import type { AudioOverview } from './AudioOverview';
+import type { PitchData, PitchExtractionJob } from './PitchExtraction';
+import { DEFAULT_PITCH_ANALYSIS_SETTINGS } from './PitchAnalysisSettings';
+import type { PitchAnalysisSettings } from './PitchAnalysisSettings';
+import { PitchWorkerClient, createAbortError, isAbortError } from './PitchWorkerClient';
+import { hashFile } from './FileHash';
+import type { PitchTrackCache } from './PitchTrackCache';
 
 export interface ProgressiveLoadingConfig {
   // If file duration is below this, load everything at once
@@ -19,73 +27,17 @@ export interface PitchSegment {
   endTime: number;
   times: number[];
   pitches: (number | null)[];
+  confidence: number[];
+  amplitude: number[];
+  intensity: number[];
   isProcessed: boolean;
 }
 
-export interface PitchData {
-  times: number[];
-  pitches: (number | null)[];
-}
-
-const MIN_PITCH = 60;
-const MAX_PITCH = 500;
-const MIN_CLARITY = 0.6;
-const MEDIAN_FILTER_SIZE = 10;
-
-// Median filter for smoothing
-function medianFilter(arr: (number | null)[], windowSize: number): (number | null)[] {
-  const result: (number | null)[] = [];
-  for (let i = 0; i < arr.length; i++) {
-    const window: number[] = [];
-    for (let j = Math.max(0, i - Math.floor(windowSize / 2)); j <= Math.min(arr.length - 1, i + Math.floor(windowSize / 2)); j++) {
-      if (arr[j] !== null && !isNaN(arr[j]!)) window.push(arr[j]!);
-    }
-    if (window.length > 0) {
-      window.sort((a, b) => a - b);
-      result.push(window[Math.floor(window.length / 2)]);
-    } else {
-      result.push(null);
-    }
-  }
-  return result;
-}
+export type { PitchData };
 
-// Enhanced smoothing for pitch data to create more simplified curves
-function smoothPitch(pitches: (number | null)[], windowSize = 25): (number | null)[] {
-  // First apply a strong median filter to remove outliers and noise
-  const medianSmoothed = medianFilter(pitches, windowSize);
-  
-  // Then apply a moving average to create smoother transitions
-  const result: (number | null)[] = [];
-  const halfWindow = Math.floor(windowSize / 2);
-  
-  for (let i = 0; i < medianSmoothed.length; i++) {
-    if (medianSmoothed[i] === null) {
-      result.push(null);
-      continue;
-    }
-    
-    let sum = 0;
-    let count = 0;
-    
-    // Calculate weighted moving average
-    for (let j = Math.max(0, i - halfWindow); j <= Math.min(medianSmoothed.length - 1, i + halfWindow); j++) {
-      if (medianSmoothed[j] !== null) {
-        // Apply weight based on distance from center point (gaussian-like)
-        const weight = 1 - Math.abs(i - j) / (halfWindow + 1);
-        sum += (medianSmoothed[j] as number) * weight;
-        count += weight;
-      }
-    }
-    
-    if (count > 0) {
-      result.push(sum / count);
-    } else {
-      result.push(medianSmoothed[i]);
-    }
-  }
-  
-  return result;
+export interface LoadOptions {
+  // Called with the overall fraction (0-1) of the requested pitch work that is done
+  onProgress?: (fraction: number) => void;
 }
 
 export class PitchDataManager {
@@ -94,11 +46,37 @@ export class PitchDataManager {
   private totalDuration: number = 0;
   private isProgressiveMode: boolean = false;
   private audioContext: AudioContext;
+  private audioStore: DecodedAudioStore;
   private currentFile: File | null = null;
-
-  constructor(config: ProgressiveLoadingConfig) {
+  private worker: PitchWorkerClient;
+  private analysisSettings: PitchAnalysisSettings;
+  // Aborted when a new file is loaded so stale pitch jobs stop early
+  private loadController: AbortController = new AbortController();
+  // Only aborted when the file goes away; new analysis settings still want the same hash
+  private hashController: AbortController = new AbortController();
+  // Persistent store of analysed segments; null disables caching
+  private cache: PitchTrackCache | null;
+  private fileHash: string | null = null;
+  private trackKey: string | null = null;
+  private cachedSegments: Set<number> = new Set();
+  private cachedOverview: AudioOverview | null = null;
+
+  constructor(
+    config: ProgressiveLoadingConfig,
+    worker: PitchWorkerClient = new PitchWorkerClient(),
+    analysisSettings: PitchAnalysisSettings = DEFAULT_PITCH_ANALYSIS_SETTINGS,
+    cache: PitchTrackCache | null = null
+  ) {
     this.config = config;
+    this.worker = worker;
+    this.analysisSettings = analysisSettings;
+    this.cache = cache;
     this.audioContext = new (window.AudioContext || window.webkitAudioContext)();
+    // Decoded PCM is shared by all segments; its memory budget follows the segment cache size
+    this.audioStore = new DecodedAudioStore(this.audioContext, {
+      chunkDuration: config.segmentDuration,
+      maxCachedChunks: config.maxCachedSegments
+    });
   }
 
   private async getFileDuration(file: File): Promise<number> {
@@ -118,31 +96,97 @@ export class PitchDataManager {
     });
   }
 
-  async initialize(file: File) {
+  // Cancel any pitch work still running for the current file
+  cancel() {
+    this.loadController.abort();
+    this.hashController.abort();
+  }
+
+  getAnalysisSettings(): PitchAnalysisSettings {
+    return this.analysisSettings;
+  }
+
+  // Switch to new analysis settings and re-analyse the loaded file. Decoded audio is kept,
+  // so only pitch extraction runs again. In progressive mode all segments are invalidated
+  // and the caller reloads the visible range with loadSegmentsForTimeRange.
+  async setAnalysisSettings(settings: PitchAnalysisSettings, options: LoadOptions = {}) {
+    this.analysisSettings = settings;
+
+    // Results computed with the old settings are no longer wanted
+    this.loadController.abort();
+    this.loadController = new AbortController();
+    const signal = this.loadController.signal;
+
+    if (!this.currentFile || this.totalDuration === 0) return;
+    console.log('[PitchDataManager] Re-analysing with new settings:', settings);
+    await this.openCacheTrack(signal);
+
+    if (!this.isProgressiveMode) {
+      const fullPitchData = await this.processEntireFile(signal, options.onProgress);
+      this.segments.set(0, {
+        startTime: 0,
+        endTime: this.totalDuration,
+        times: fullPitchData.times,
+        pitches: fullPitchData.pitches,
+        confidence: fullPitchData.confidence,
+        amplitude: fullPitchData.amplitude ?? [],
+        intensity: fullPitchData.intensity ?? [],
+        isProcessed: true
+      });
+    } else {
+      for (const [index, segment] of this.segments.entries()) {
+        this.segments.set(index, { ...segment, times: [], pitches: [], confidence: [], amplitude: [], intensity: [], isProcessed: false });
+      }
+    }
+  }
+
+  async initialize(file: File, options: LoadOptions = {}) {
+    // Cancel whatever the previous file was still processing
+    this.loadController.abort();
+    this.loadController = new AbortController();
+    this.hashController.abort();
+    this.hashController = new AbortController();
+    const signal = this.loadController.signal;
+
     // Reset all state when initializing with a new file
     this.segments.clear();
     this.totalDuration = 0;
     this.isProgressiveMode = false;
     this.currentFile = null;
+    this.audioStore.clear();
+    this.fileHash = null;
+    this.trackKey = null;
+    this.cachedSegments = new Set();
+    this.cachedOverview = null;
 
     // Now initialize with the new file
     this.currentFile = file;
-    this.totalDuration = await this.getFileDuration(file);
+    this.audioStore.load(file);
+    const duration = await this.getFileDuration(file);
+    signal.throwIfAborted();
+    this.totalDuration = duration;
     console.log('[PitchDataManager] File duration:', this.totalDuration, 'seconds');
     console.log('[PitchDataManager] Threshold duration:', this.config.thresholdDuration, 'seconds');
     
     this.isProgressiveMode = this.totalDuration > this.config.thresholdDuration;
     console.log('[PitchDataManager] Using progressive mode:', this.isProgressiveMode);
 
+    // Find out which segments earlier sessions already analysed for this file. Hashing reads
+    // the whole file, so the first segments are extracted meanwhile instead of waiting for it.
+    if (this.cache) this.openCacheWhenHashed(file);
+
     if (!this.isProgressiveMode) {
       // Process entire file at once
       console.log('[PitchDataManager] Processing entire file at once');
-      const fullPitchData = await this.processEntireFile(file);
+      const fullPitchData = await this.processEntireFile(signal, options.onProgress);
       this.segments.set(0, {
         startTime: 0,
         endTime: this.totalDuration,
         times: fullPitchData.times,
         pitches: fullPitchData.pitches,
+        confidence: fullPitchData.confidence,
+        amplitude: fullPitchData.amplitude ?? [],
+        intensity: fullPitchData.intensity ?? [],
         isProcessed: true
       });
     } else {
@@ -156,78 +200,106 @@ export class PitchDataManager {
         this.config.preloadSegments,
         Math.ceil(this.totalDuration / this.config.segmentDuration) - 1
       );
+      const segmentCount = initialEndSegment + 1;
       for (let i = 0; i <= initialEndSegment; i++) {
         console.log(`[PitchDataManager] Processing initial segment ${i}`);
-        await this.processSegment(i);
+        await this.processSegment(i, signal, fraction => options.onProgress?.((i + fraction) / segmentCount));
       }
     }
   }
 
-  private async processEntireFile(file: File): Promise<PitchData> {
-    const arrayBuffer = await file.arrayBuffer();
-    const audioBuffer = await this.audioContext.decodeAudioData(arrayBuffer);
-    const channelData = audioBuffer.getChannelData(0);
-    const sampleRate = audioBuffer.sampleRate;
-    const frameSize = 2048;
-    const hopSize = 256;
-    const detector = PitchDetector.forFloat32Array(frameSize);
-    const pitches: (number | null)[] = [];
-    const times: number[] = [];
-
-    // Process all frames, including the last one
-    for (let i = 0; i <= channelData.length - 1; i += hopSize) {
-      try {
-        let frame: Float32Array;
-        
-        // Check if we need to pad the frame
-        if (i + frameSize > channelData.length) {
-          // We're at the end, create a padded frame
-          const remainingSamples = channelData.length - i;
-          frame = new Float32Array(frameSize);
-          
-          // Copy the remaining samples
-          frame.set(channelData.slice(i, channelData.length));
-          
-          // Pad with zeros (or last value if we want to avoid discontinuities)
-          const lastValue = channelData[channelData.length - 1] || 0;
-          for (let j = remainingSamples; j < frameSize; j++) {
-            frame[j] = lastValue; // Alternatively, use 0 here
-          }
-          
-          console.log(`[PitchDataManager] Created padded frame at end of file: ${remainingSamples}/${frameSize} samples`);
-        } else {
-          // Regular frame, no padding needed
-          frame = channelData.slice(i, i + frameSize);
-        }
-        
-        const [pitch, clarity] = detector.findPitch(frame, sampleRate);
-        if (pitch >= MIN_PITCH && pitch <= MAX_PITCH && clarity >= MIN_CLARITY) {
-          pitches.push(pitch);
-        } else {
-          pitches.push(null);
-        }
-        times.push(i / sampleRate);
-        
-        // If we're processing a padded frame at the end, stop after this iteration
-        if (i + frameSize > channelData.length) {
-          break;
+  private async processEntireFile(signal: AbortSignal, onProgress?: (fraction: number) => void): Promise<PitchData> {
+    const cached = await this.readCachedSegment(0, signal);
+    if (cached) {
+      onProgress?.(1);
+      return cached;
+    }
+
+    const range = await this.audioStore.getRange(0, this.totalDuration);
+    signal.throwIfAborted();
+
+    // Process all frames, padding the last one at the end of the file
+    const pitchData = await this.worker.extract(
+      this.createJob(range, 0, range.totalSamples, true),
+      { signal, onProgress }
+    );
+    this.writeCachedSegment(0, { startTime: 0, endTime: this.totalDuration, ...pitchData });
+    return pitchData;
+  }
+
+  private openCacheWhenHashed(file: File) {
+    const signal = this.hashController.signal;
+    const settings = this.analysisSettings;
+    hashFile(file, signal)
+      .then(async hash => {
+        this.fileHash = hash;
+        await this.openCacheTrack(signal);
+        // Store what was analysed while the hash was being computed
+        if (this.analysisSettings !== settings) return;
+        for (const [index, segment] of this.segments) {
+          if (segment.isProcessed && !this.cachedSegments.has(index)) this.writeCachedSegment(index, segment);
         }
-      } catch (frameError: unknown) {
-        const errorMessage = frameError instanceof Error ? frameError.message : String(frameError);
-        console.warn(`[PitchDataManager] Error processing frame at position ${i}: ${errorMessage}`);
-        // Add a null pitch for this position to maintain time alignment
-        times.push(i / sampleRate);
-        pitches.push(null);
-      }
+      })
+      .catch(error => {
+        if (!isAbortError(error)) console.warn('[PitchDataManager] Could not hash file, pitch cache disabled:', error);
+      });
+  }
+
+  // Look up the cache track for the current file and settings
+  private async openCacheTrack(signal: AbortSignal) {
+    this.trackKey = null;
+    this.cachedSegments = new Set();
+    if (!this.cache || !this.fileHash) return;
+
+    const trackKey = this.cache.getTrackKey(
+      this.fileHash,
+      this.analysisSettings,
+      this.isProgressiveMode ? this.config.segmentDuration : 'full'
+    );
+    try {
+      const track = await this.cache.openTrack(trackKey);
+      signal.throwIfAborted();
+      this.trackKey = trackKey;
+      this.cachedSegments = track?.segments ?? new Set();
+      this.cachedOverview = track?.overview ?? this.cachedOverview;
+      console.log(`[PitchDataManager] Pitch cache has ${this.cachedSegments.size} segments for this file and settings`);
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      console.warn('[PitchDataManager] Could not open pitch cache:', error);
     }
+  }
 
-    // Apply standard median filter first
-    const medianSmoothed = medianFilter(pitches, MEDIAN_FILTER_SIZE);
-    
-    // Then apply enhanced smoothing for more simplified curves
-    const enhancedSmooth = smoothPitch(medianSmoothed, 25);
-    
-    return { times, pitches: enhancedSmooth };
+  private async readCachedSegment(segmentIndex: number, signal: AbortSignal): Promise<PitchData | null> {
+    if (!this.cache || !this.trackKey || !this.cachedSegments.has(segmentIndex)) return null;
+    try {
+      const cached = await this.cache.getSegment(this.trackKey, segmentIndex);
+      signal.throwIfAborted();
+      if (cached) console.log(`[PitchDataManager] Segment ${segmentIndex} loaded from pitch cache`);
+      return cached;
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      console.warn(`[PitchDataManager] Could not read segment ${segmentIndex} from pitch cache:`, error);
+      return null;
+    }
+  }
+
+  // Store a freshly analysed segment in the background
+  private writeCachedSegment(segmentIndex: number, segment: PitchData & { startTime: number; endTime: number }) {
+    if (!this.cache || !this.trackKey || !this.fileHash || !this.currentFile) return;
+    this.cachedSegments.add(segmentIndex);
+    this.cache
+      .putSegment(
+        {
+          trackKey: this.trackKey,
+          fileHash: this.fileHash,
+          fileName: this.currentFile.name,
+          settings: this.analysisSettings,
+          overview: this.getAudioOverview()
+        },
+        segmentIndex,
+        segment
+      )
+      .catch(error => console.warn(`[PitchDataManager] Could not store segment ${segmentIndex} in pitch cache:`, error));
   }
 
   private initializeSegments() {
@@ -239,156 +311,125 @@ export class PitchDataManager {
         endTime: Math.min(startTime + this.config.segmentDuration, this.totalDuration),
         times: [],
         pitches: [],
+        confidence: [],
+        amplitude: [],
+        intensity: [],
         isProcessed: false
       });
     }
   }
 
-  async loadSegmentsForTimeRange(startTime: number, endTime: number) {
+  async loadSegmentsForTimeRange(startTime: number, endTime: number, options: LoadOptions = {}) {
     if (!this.isProgressiveMode) {
       console.log('[PitchDataManager] Skipping segment load - not in progressive mode');
       return;
     }
 
+    const signal = this.loadController.signal;
     const startSegment = Math.floor(startTime / this.config.segmentDuration);
     const endSegment = Math.floor(endTime / this.config.segmentDuration);
     
     console.log(`[PitchDataManager] Loading segments ${startSegment} to ${endSegment} (${startTime}s to ${endTime}s)`);
     
     // Load visible segments plus preload
+    const pending: number[] = [];
     for (let i = startSegment; i <= endSegment + this.config.preloadSegments; i++) {
-      if (this.segments.has(i) && !this.segments.get(i)!.isProcessed) {
-        console.log(`[PitchDataManager] Processing segment ${i}`);
-        try {
-          await this.processSegment(i);
-        } catch (error: unknown) {
-          const errorMessage = error instanceof Error ? error.message : String(error);
-          console.error(`[PitchDataManager] Error loading segment ${i}:`, errorMessage);
-          
-          // Mark as processed with empty data to prevent repeated errors
-          const segment = this.segments.get(i);
-          if (segment) {
-            this.segments.set(i, {
-              ...segment,
-              times: [],
-              pitches: [],
-              isProcessed: true
-            });
-          }
+      if (this.segments.has(i) && !this.segments.get(i)!.isProcessed) pending.push(i);
+    }
+
+    for (let n = 0; n < pending.length; n++) {
+      const i = pending[n];
+      console.log(`[PitchDataManager] Processing segment ${i}`);
+      try {
+        await this.processSegment(i, signal, fraction => options.onProgress?.((n + fraction) / pending.length));
+      } catch (error: unknown) {
+        // A newer file replaced this one; stop without touching the segment map
+        if (isAbortError(error)) throw error;
+
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        console.error(`[PitchDataManager] Error loading segment ${i}:`, errorMessage);
+        
+        // Mark as processed with empty data to prevent repeated errors
+        const segment = this.segments.get(i);
+        if (segment) {
+          this.segments.set(i, {
+            ...segment,
+            times: [],
+            pitches: [],
+            confidence: [],
+            amplitude: [],
+            intensity: [],
+            isProcessed: true
+          });
         }
       }
     }
+    options.onProgress?.(1);
 
     // Cleanup old segments if needed
     this.cleanupOldSegments(startSegment);
   }
 
-  private async processSegment(segmentIndex: number) {
+  private async processSegment(segmentIndex: number, signal: AbortSignal, onProgress?: (fraction: number) => void) {
     const segment = this.segments.get(segmentIndex);
     if (!segment || segment.isProcessed) return;
 
-    const file = this.currentFile;
-    if (!file) throw new Error('No file loaded');
+    if (!this.currentFile) throw new Error('No file loaded');
 
     console.log(`[PitchDataManager] Processing segment ${segmentIndex} (${segment.startTime}s to ${segment.endTime}s)`);
 
     try {
-      const arrayBuffer = await file.arrayBuffer();
-      const audioBuffer = await this.audioContext.decodeAudioData(arrayBuffer);
-      const channelData = audioBuffer.getChannelData(0);
-      const sampleRate = audioBuffer.sampleRate;
-      
+      const cached = await this.readCachedSegment(segmentIndex, signal);
+      if (cached) {
+        if (this.segments.get(segmentIndex) !== segment) throw createAbortError();
+        this.segments.set(segmentIndex, {
+          ...segment,
+          ...cached,
+          amplitude: cached.amplitude ?? [],
+          intensity: cached.intensity ?? [],
+          isProcessed: true
+        });
+        onProgress?.(1);
+        return;
+      }
+
+      // Slice this segment (plus one frame of lookahead) from the shared decoded audio
+      const range = await this.audioStore.getRange(segment.startTime, segment.endTime, this.analysisSettings.frameSize);
+      signal.throwIfAborted();
+
       // Calculate sample indices for this segment
-      const startSample = Math.floor(segment.startTime * sampleRate);
-      const endSample = Math.floor(segment.endTime * sampleRate);
+      const startSample = Math.floor(segment.startTime * range.sampleRate);
+      const endSample = Math.floor(segment.endTime * range.sampleRate);
       
       console.log(`[PitchDataManager] Segment ${segmentIndex} samples: ${startSample} to ${endSample}`);
-      
-      const frameSize = 2048;
-      const hopSize = 256;
-      const detector = PitchDetector.forFloat32Array(frameSize);
-      const pitches: (number | null)[] = [];
-      const times: number[] = [];
-
-      // Process all samples in this segment, including handling the end correctly
-      for (let i = startSample; i < endSample; i += hopSize) {
-        try {
-          let frame: Float32Array;
-          
-          // Check if there are enough samples left in this segment for a full frame
-          if (i + frameSize > endSample) {
-            // If this is the last segment of the file and we're near the end
-            if (segmentIndex === this.segments.size - 1 && i + frameSize > channelData.length) {
-              // Create a padded frame for the end of the file
-              const remainingSamples = channelData.length - i;
-              frame = new Float32Array(frameSize);
-              
-              // Copy the remaining samples
-              frame.set(channelData.slice(i, channelData.length));
-              
-              // Pad with zeros or last value
-              const lastValue = channelData[channelData.length - 1] || 0;
-              for (let j = remainingSamples; j < frameSize; j++) {
-                frame[j] = lastValue;
-              }
-              
-              console.log(`[PitchDataManager] Created padded frame at end of segment ${segmentIndex}: ${remainingSamples}/${frameSize} samples`);
-            } else {
-              // For non-final segments or if we still have enough samples in the buffer,
-              // just read ahead into the next segment
-              frame = channelData.slice(i, i + frameSize);
-            }
-          } else {
-            // Regular frame, no special handling needed
-            frame = channelData.slice(i, i + frameSize);
-          }
-          
-          // Ensure we have a full frame
-          if (frame.length === frameSize) {
-            const [pitch, clarity] = detector.findPitch(frame, sampleRate);
-            if (pitch >= MIN_PITCH && pitch <= MAX_PITCH && clarity >= MIN_CLARITY) {
-              pitches.push(pitch);
-            } else {
-              pitches.push(null);
-            }
-            times.push(i / sampleRate);
-          } else {
-            console.warn(`[PitchDataManager] Skipping frame with unexpected length: ${frame.length}`);
-          }
-          
-          // If we're processing a frame that extends beyond this segment's endSample,
-          // or we've reached the end of the file, break after this iteration
-          if (i + hopSize >= endSample || 
-             (segmentIndex === this.segments.size - 1 && i + frameSize > channelData.length)) {
-            break;
-          }
-        } catch (frameError: unknown) {
-          const errorMessage = frameError instanceof Error ? frameError.message : String(frameError);
-          console.warn(`[PitchDataManager] Error processing frame at position ${i}: ${errorMessage}`);
-          // Add a null pitch for this position to maintain time alignment
-          if (i / sampleRate >= segment.startTime && i / sampleRate <= segment.endTime) {
-            times.push(i / sampleRate);
-            pitches.push(null);
-          }
-        }
-      }
 
-      // Apply standard median filter first
-      const medianSmoothed = medianFilter(pitches, MEDIAN_FILTER_SIZE);
-      
-      // Then apply enhanced smoothing for more simplified curves
-      const enhancedSmooth = smoothPitch(medianSmoothed, 25);
+      // Frames near the end of a segment read ahead into the next one; only the
+      // last segment of the file pads its final frame
+      const isLastSegment = segmentIndex === this.segments.size - 1;
+      const pitchData = await this.worker.extract(
+        this.createJob(range, startSample, endSample, isLastSegment),
+        { signal, onProgress }
+      );
+
+      // The segment map was reset if a new file was loaded meanwhile
+      if (signal.aborted || this.segments.get(segmentIndex) !== segment) throw createAbortError();
       
-      console.log(`[PitchDataManager] Segment ${segmentIndex} processed: ${pitches.length} points`);
+      console.log(`[PitchDataManager] Segment ${segmentIndex} processed: ${pitchData.times.length} points`);
       
       // Update the segment with processed data
       this.segments.set(segmentIndex, {
         ...segment,
-        times,
-        pitches: enhancedSmooth,
+        times: pitchData.times,
+        pitches: pitchData.pitches,
+        confidence: pitchData.confidence,
+        amplitude: pitchData.amplitude ?? [],
+        intensity: pitchData.intensity ?? [],
         isProcessed: true
       });
+      this.writeCachedSegment(segmentIndex, { startTime: segment.startTime, endTime: segment.endTime, ...pitchData });
     } catch (error: unknown) {
+      if (isAbortError(error)) throw error;
+
       const errorMessage = error instanceof Error ? error.message : String(error);
       console.error(`[PitchDataManager] Error processing segment ${segmentIndex}:`, errorMessage);
       
@@ -397,11 +438,26 @@ export class PitchDataManager {
         ...segment,
         times: [],
         pitches: [],
+        confidence: [],
+        amplitude: [],
+        intensity: [],
         isProcessed: true
       });
     }
   }
 
+  private createJob(range: AudioRange, rangeStart: number, rangeEnd: number, padFinalFrame: boolean): PitchExtractionJob {
+    return {
+      samples: range.samples,
+      sampleRate: range.sampleRate,
+      startSample: range.startSample,
+      rangeStart,
+      rangeEnd,
+      padFinalFrame,
+      settings: this.analysisSettings
+    };
+  }
+
   private cleanupOldSegments(currentSegment: number) {
     const segmentsToKeep = new Set(
       Array.from({ length: this.config.maxCachedSegments }, 
@@ -416,6 +472,9 @@ export class PitchDataManager {
           ...segment,
           times: [],
           pitches: [],
+          confidence: [],
+          amplitude: [],
+          intensity: [],
           isProcessed: false
         });
       }
@@ -425,6 +484,9 @@ export class PitchDataManager {
   getPitchDataForTimeRange(startTime: number, endTime: number): PitchData {
     let times: number[] = [];
     let pitches: (number | null)[] = [];
+    let confidence: number[] = [];
+    let amplitude: number[] = [];
+    let intensity: number[] = [];
 
     for (const segment of this.segments.values()) {
       if (segment.isProcessed && 
@@ -434,10 +496,13 @@ export class PitchDataManager {
         const endIdx = segment.times.findIndex(t => t > endTime);
         times = times.concat(segment.times.slice(startIdx, endIdx));
         pitches = pitches.concat(segment.pitches.slice(startIdx, endIdx));
+        confidence = confidence.concat(segment.confidence.slice(startIdx, endIdx));
+        amplitude = amplitude.concat(segment.amplitude.slice(startIdx, endIdx));
+        intensity = intensity.concat(segment.intensity.slice(startIdx, endIdx));
       }
     }
 
-    return { times, pitches };
+    return { times, pitches, confidence, amplitude, intensity };
   }
 
   // Add method to get total duration
@@ -445,6 +510,16 @@ export class PitchDataManager {
     return this.totalDuration;
   }
 
+  // Whole-file energy/voicing summary, available once the file has been decoded
+  getAudioOverview(): AudioOverview | null {
+    return this.audioStore.getOverview() ?? this.cachedOverview;
+  }
+
+  // Like getAudioOverview, but builds the overview if the file has not been read through yet
+  async loadAudioOverview(): Promise<AudioOverview | null> {
+    return this.getAudioOverview() ?? this.audioStore.loadOverview();
+  }
+
   // Add method to check if we're in progressive mode
   isInProgressiveMode(): boolean {
     return this.isProgressiveMode;
@@ -0,0 +1,91 @@
+import { downloadBlob } from './Download';
+import type { PitchAnalysisSettings } from './PitchAnalysisSettings';
+import type { PitchData } from './PitchExtraction';
+
+export type PitchExportFormat = 'csv' | 'json' | 'pitchtier';
+
+export const PITCH_EXPORT_FORMATS: { id: PitchExportFormat; label: string; extension: string; mimeType: string }[] = [
+  { id: 'csv', label: 'CSV', extension: 'csv', mimeType: 'text/csv' },
+  { id: 'json', label: 'JSON', extension: 'json', mimeType: 'application/json' },
+  { id: 'pitchtier', label: 'Praat PitchTier', extension: 'PitchTier', mimeType: 'text/plain' },
+];
+
+export interface PitchExportMetadata {
+  source: 'native' | 'user';
+  fileName: string;
+  // Exported time range in seconds on the recording's own timeline
+  start: number;
+  end: number;
+  settings: PitchAnalysisSettings;
+}
+
+// Enough decimals for 1 ms / 0.01 Hz resolution without float noise
+const formatNumber = (value: number, decimals: number) => String(Number(value.toFixed(decimals)));
+
+// One row per frame; unvoiced frames keep their row with an empty pitch
+export function pitchDataToCsv(data: PitchData): string {
+  const rows = ['time_s,pitch_hz,confidence'];
+  data.times.forEach((t, i) => {
+    const pitch = data.pitches[i];
+    rows.push([
+      formatNumber(t, 4),
+      pitch !== null ? formatNumber(pitch, 2) : '',
+      formatNumber(data.confidence[i] ?? 0, 3),
+    ].join(','));
+  });
+  return rows.join('\n') + '\n';
+}
+
+export function pitchDataToJson(data: PitchData, metadata: PitchExportMetadata): string {
+  return JSON.stringify({
+    format: 'pitch-accent-web/pitch',
+    version: 1,
+    exportedAt: new Date().toISOString(),
+    ...metadata,
+    frames: data.times.map((t, i) => ({
+      time: Number(t.toFixed(4)),
+      pitch: data.pitches[i] !== null ? Number((data.pitches[i] as number).toFixed(2)) : null,
+      confidence: Number((data.confidence[i] ?? 0).toFixed(3)),
+    })),
+  }, null, 2);
+}
+
+// Praat short text PitchTier: xmin, xmax, point count, then time/frequency pairs.
+// PitchTiers have no unvoiced points, so those frames are left out.
+export function pitchDataToPitchTier(data: PitchData, start: number, end: number): string {
+  const points: string[] = [];
+  data.times.forEach((t, i) => {
+    const pitch = data.pitches[i];
+    if (pitch !== null && pitch > 0) points.push(formatNumber(t, 6), formatNumber(pitch, 4));
+  });
+  return [
+    'File type = "ooTextFile"',
+    'Object class = "PitchTier"',
+    '',
+    formatNumber(start, 6),
+    formatNumber(end, 6),
+    String(points.length / 2),
+    ...points,
+  ].join('\n') + '\n';
+}
+
+export function exportPitchData(
+  data: PitchData,
+  metadata: PitchExportMetadata,
+  format: PitchExportFormat
+): { content: string; fileName: string; mimeType: string } {
+  const info = PITCH_EXPORT_FORMATS.find(f => f.id === format) ?? PITCH_EXPORT_FORMATS[0];
+  const baseName = metadata.fileName.replace(/\.[^.]+$/, '') || 'recording';
+  const fileName = `${baseName}_${metadata.source}_${metadata.start.toFixed(2)}-${metadata.end.toFixed(2)}.${info.extension}`;
+
+  const content = format === 'json'
+    ? pitchDataToJson(data, metadata)
+    : format === 'pitchtier'
+      ? pitchDataToPitchTier(data, metadata.start, metadata.end)
+      : pitchDataToCsv(data);
+  return { content, fileName, mimeType: info.mimeType };
+}
+
+export function downloadTextFile(content: string, fileName: string, mimeType: string) {
+  downloadBlob(new Blob([content], { type: `${mimeType};charset=utf-8` }), fileName);
+}
@@ -0,0 +1,207 @@
+import { createPitchTracker } from './PitchTracker';
+import { correctOctaveErrors } from './OctaveCorrection';
+import type { PitchAnalysisSettings } from './PitchAnalysisSettings';
+
+export interface PitchData {
+  times: number[];
+  pitches: (number | null)[];
+  // Per-frame confidence (0-1) from the octave correction pass, aligned with `times`
+  confidence: number[];
+  // Per-frame levels for the waveform and intensity layers, aligned with `times`. Absent
+  // for pitch tracks that were not extracted from audio, e.g. imported PitchTiers.
+  // Peak absolute sample value (0-1) over the frame's hop
+  amplitude?: number[];
+  // RMS level of the analysis frame in dBFS
+  intensity?: number[];
+}
+
+export interface PitchExtractionJob {
+  // PCM to analyse; may extend past rangeEnd so the last frames can read ahead
+  samples: Float32Array;
+  sampleRate: number;
+  // Absolute sample index of samples[0]
+  startSample: number;
+  // Absolute sample range in which frames start
+  rangeStart: number;
+  rangeEnd: number;
+  // Pad the final partial frame (end of file) instead of dropping it
+  padFinalFrame: boolean;
+  settings: PitchAnalysisSettings;
+}
+
+export interface PitchExtractionCallbacks {
+  onProgress?: (fraction: number) => void;
+  isCancelled?: () => boolean;
+}
+
+// Number of frames analysed between progress reports / cancellation checks
+const FRAMES_PER_SLICE = 500;
+
+// Intensity of a silent frame, so digital silence does not produce -Infinity
+export const MIN_INTENSITY_DB = -100;
+
+// Median filter for smoothing
+export function medianFilter(arr: (number | null)[], windowSize: number): (number | null)[] {
+  const result: (number | null)[] = [];
+  for (let i = 0; i < arr.length; i++) {
+    const window: number[] = [];
+    for (let j = Math.max(0, i - Math.floor(windowSize / 2)); j <= Math.min(arr.length - 1, i + Math.floor(windowSize / 2)); j++) {
+      if (arr[j] !== null && !isNaN(arr[j]!)) window.push(arr[j]!);
+    }
+    if (window.length > 0) {
+      window.sort((a, b) => a - b);
+      result.push(window[Math.floor(window.length / 2)]);
+    } else {
+      result.push(null);
+    }
+  }
+  return result;
+}
+
+// Enhanced smoothing for pitch data to create more simplified curves
+export function smoothPitch(pitches: (number | null)[], windowSize = 25): (number | null)[] {
+  // First apply a strong median filter to remove outliers and noise
+  const medianSmoothed = medianFilter(pitches, windowSize);
+
+  // Then apply a moving average to create smoother transitions
+  const result: (number | null)[] = [];
+  const halfWindow = Math.floor(windowSize / 2);
+
+  for (let i = 0; i < medianSmoothed.length; i++) {
+    if (medianSmoothed[i] === null) {
+      result.push(null);
+      continue;
+    }
+
+    let sum = 0;
+    let count = 0;
+
+    // Calculate weighted moving average
+    for (let j = Math.max(0, i - halfWindow); j <= Math.min(medianSmoothed.length - 1, i + halfWindow); j++) {
+      if (medianSmoothed[j] !== null) {
+        // Apply weight based on distance from center point (gaussian-like)
+        const weight = 1 - Math.abs(i - j) / (halfWindow + 1);
+        sum += (medianSmoothed[j] as number) * weight;
+        count += weight;
+      }
+    }
+
+    if (count > 0) {
+      result.push(sum / count);
+    } else {
+      result.push(medianSmoothed[i]);
+    }
+  }
+
+  return result;
+}
+
+// Moving average of the confidence track, so it follows the smoothed curve
+export function smoothConfidence(confidence: number[], windowSize: number): number[] {
+  const halfWindow = Math.floor(windowSize / 2);
+  return confidence.map((_, i) => {
+    let sum = 0;
+    let count = 0;
+    for (let j = Math.max(0, i - halfWindow); j <= Math.min(confidence.length - 1, i + halfWindow); j++) {
+      sum += confidence[j];
+      count++;
+    }
+    return count > 0 ? sum / count : 0;
+  });
+}
+
+// Run pitch detection over a range of samples and smooth the result.
+// Resolves to null when the job is cancelled part-way through.
+export async function extractPitch(
+  job: PitchExtractionJob,
+  callbacks: PitchExtractionCallbacks = {}
+): Promise<PitchData | null> {
+  const { samples, sampleRate, startSample, rangeStart, rangeEnd, settings } = job;
+  const { frameSize, hopSize } = settings;
+  const tracker = createPitchTracker(settings.algorithm, {
+    frameSize,
+    minPitch: settings.minPitch,
+    maxPitch: settings.maxPitch
+  });
+  const pitches: (number | null)[] = [];
+  const clarities: number[] = [];
+  const times: number[] = [];
+  const amplitude: number[] = [];
+  const intensity: number[] = [];
+  const totalFrames = Math.max(1, Math.ceil((rangeEnd - rangeStart) / hopSize));
+  let frameCount = 0;
+
+  for (let i = rangeStart; i < rangeEnd; i += hopSize) {
+    const local = i - startSample;
+    let frame: Float32Array;
+    let isFinalFrame = false;
+
+    if (local + frameSize <= samples.length) {
+      frame = samples.subarray(local, local + frameSize);
+    } else if (job.padFinalFrame) {
+      // We're at the end of the file, create a padded frame
+      const remainingSamples = Math.max(0, samples.length - local);
+      frame = new Float32Array(frameSize);
+      frame.set(samples.subarray(local, samples.length));
+
+      // Pad with the last value to avoid a discontinuity
+      const lastValue = samples[samples.length - 1] || 0;
+      for (let j = remainingSamples; j < frameSize; j++) {
+        frame[j] = lastValue;
+      }
+      isFinalFrame = true;
+    } else {
+      // Not enough samples left for a full frame and no padding requested
+      break;
+    }
+
+    try {
+      const [pitch, clarity] = tracker.findPitch(frame, sampleRate);
+      if (pitch >= settings.minPitch && pitch <= settings.maxPitch && clarity >= settings.minClarity) {
+        pitches.push(pitch);
+        clarities.push(clarity);
+      } else {
+        pitches.push(null);
+        clarities.push(0);
+      }
+    } catch (frameError: unknown) {
+      const errorMessage = frameError instanceof Error ? frameError.message : String(frameError);
+      console.warn(`[PitchExtraction] Error processing frame at position ${i}: ${errorMessage}`);
+      // Add a null pitch for this position to maintain time alignment
+      pitches.push(null);
+      clarities.push(0);
+    }
+    times.push(i / sampleRate);
+
+    let peak = 0;
+    for (let j = 0; j < Math.min(hopSize, frame.length); j++) peak = Math.max(peak, Math.abs(frame[j]));
+    let power = 0;
+    for (let j = 0; j < frame.length; j++) power += frame[j] * frame[j];
+    amplitude.push(peak);
+    intensity.push(Math.max(MIN_INTENSITY_DB, 10 * Math.log10(power / frame.length)));
+
+    if (isFinalFrame) break;
+
+    frameCount++;
+    if (frameCount % FRAMES_PER_SLICE === 0) {
+      callbacks.onProgress?.(frameCount / totalFrames);
+      // Yield so cancellation messages can be received between slices
+      await new Promise(resolve => setTimeout(resolve, 0));
+      if (callbacks.isCancelled?.()) return null;
+    }
+  }
+
+  // Repair octave jumps before smoothing so they are not averaged into the curve
+  const corrected = correctOctaveErrors(pitches, clarities, settings);
+
+  // Apply standard median filter first
+  const medianSmoothed = medianFilter(corrected.pitches, settings.medianFilterSize);
+
+  // Then apply enhanced smoothing for more simplified curves
+  const enhancedSmooth = smoothPitch(medianSmoothed, settings.smoothingWindow);
+  const confidence = smoothConfidence(corrected.confidence, settings.medianFilterSize)
+    .map((value, i) => (enhancedSmooth[i] === null ? 0 : value));
+
+  callbacks.onProgress?.(1);
+  return { times, pitches: enhancedSmooth, confidence, amplitude, intensity };
+}
@@ -0,0 +1,134 @@
+// Y axis units for pitch curves. Pitch accent is relative, so curves from speakers with
+// different voice ranges are easier to compare in speaker-normalised units.
+export type PitchScaleMode = 'hz' | 'semitones' | 'zscore';
+
+export const PITCH_SCALE_MODES: { id: PitchScaleMode; label: string; unit: string }[] = [
+  { id: 'hz', label: 'Hz', unit: 'Hz' },
+  { id: 'semitones', label: 'Semitones (re median)', unit: 'st' },
+  { id: 'zscore', label: 'z-score (log F0)', unit: 'z' },
+];
+
+// Per-speaker statistics the normalised modes are relative to
+export interface PitchScaleReference {
+  // Median F0 in Hz
+  median: number;
+  // Mean and standard deviation of log2(F0)
+  logMean: number;
+  logStd: number;
+}
+
+// Default axis range per mode, used until the data needs more room
+const DEFAULT_RANGES: Record<PitchScaleMode, [number, number]> = {
+  hz: [50, 500],
+  semitones: [-12, 12],
+  zscore: [-3, 3],
+};
+
+// Tick spacing and rounding step per mode
+const STEP_SIZES: Record<PitchScaleMode, number> = {
+  hz: 50,
+  semitones: 2,
+  zscore: 0.5,
+};
+
+const STORAGE_KEY = 'pitchScaleMode';
+
+export function isPitchScaleMode(value: unknown): value is PitchScaleMode {
+  return PITCH_SCALE_MODES.some(mode => mode.id === value);
+}
+
+export function getPitchScaleUnit(mode: PitchScaleMode): string {
+  return PITCH_SCALE_MODES.find(m => m.id === mode)?.unit ?? 'Hz';
+}
+
+export function computePitchScaleReference(pitches: (number | null)[]): PitchScaleReference | null {
+  const voiced = pitches.filter((p): p is number => p !== null && p > 0 && Number.isFinite(p));
+  if (voiced.length === 0) return null;
+
+  const sorted = [...voiced].sort((a, b) => a - b);
+  const median = sorted[Math.floor(sorted.length / 2)];
+
+  const logs = voiced.map(p => Math.log2(p));
+  const logMean = logs.reduce((sum, v) => sum + v, 0) / logs.length;
+  const variance = logs.reduce((sum, v) => sum + (v - logMean) * (v - logMean), 0) / logs.length;
+
+  // A perfectly flat contour would divide by zero; a tenth of a semitone is plenty
+  return { median, logMean, logStd: Math.max(Math.sqrt(variance), 0.1 / 12) };
+}
+
+// Convert a pitch in Hz to the given mode. Normalised modes need a reference.
+export function convertPitch(hz: number, mode: PitchScaleMode, reference: PitchScaleReference | null): number | null {
+  if (hz <= 0 || !Number.isFinite(hz)) return null;
+  switch (mode) {
+    case 'semitones':
+      return reference ? 12 * Math.log2(hz / reference.median) : null;
+    case 'zscore':
+      return reference ? (Math.log2(hz) - reference.logMean) / reference.logStd : null;
+    case 'hz':
+    default:
+      return hz;
+  }
+}
+
+export function convertPitches(
+  pitches: (number | null)[],
+  mode: PitchScaleMode,
+  reference: PitchScaleReference | null
+): (number | null)[] {
+  if (mode === 'hz') return pitches;
+  return pitches.map(p => (p === null ? null : convertPitch(p, mode, reference)));
+}
+
+export function formatPitchValue(value: number, mode: PitchScaleMode): string {
+  switch (mode) {
+    case 'semitones':
+      return `${value > 0 ? '+' : ''}${value.toFixed(1)} st`;
+    case 'zscore':
+      return `${value > 0 ? '+' : ''}${value.toFixed(2)} z`;
+    case 'hz':
+    default:
+      return `${Math.round(value)} Hz`;
+  }
+}
+
+// Shorter form for axis ticks, without the unit
+export function formatPitchTick(value: number, mode: PitchScaleMode): string {
+  if (mode === 'hz') return String(Math.round(value));
+  const rounded = Math.round(value * 100) / 100;
+  return `${rounded > 0 ? '+' : ''}${rounded}`;
+}
+
+export function getPitchScaleStep(mode: PitchScaleMode): number {
+  return STEP_SIZES[mode];
+}
+
+// Axis range for the given (already converted) values: the mode's default range,
+// widened to whole steps when the data goes beyond it
+export function getPitchScaleRange(values: (number | null)[], mode: PitchScaleMode): [number, number] {
+  const [defaultMin, defaultMax] = DEFAULT_RANGES[mode];
+  const valid = values.filter((v): v is number => v !== null && Number.isFinite(v));
+  if (valid.length === 0) return [defaultMin, defaultMax];
+
+  const step = mode === 'hz' ? 10 : STEP_SIZES[mode];
+  const min = Math.floor(valid.reduce((a, b) => Math.min(a, b), defaultMin) / step) * step;
+  const max = Math.ceil(valid.reduce((a, b) => Math.max(a, b), defaultMax) / step) * step;
+  return [min, max];
+}
+
+export function loadPitchScaleMode(): PitchScaleMode {
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY);
+    if (isPitchScaleMode(stored)) return stored;
+  } catch (error) {
+    console.warn('[PitchScale] Could not read stored scale mode:', error);
+  }
+  return 'hz';
+}
+
+export function savePitchScaleMode(mode: PitchScaleMode) {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, mode);
+  } catch (error) {
+    console.warn('[PitchScale] Could not store scale mode:', error);
+  }
+}
@@ -0,0 +1,218 @@
+import { PITCH_SEGMENT_STORE, PITCH_TRACK_STORE, openDatabase, requestToPromise, transactionDone } from './Database';
+import type { PitchAnalysisSettings } from './PitchAnalysisSettings';
+import type { AudioOverview } from './AudioOverview';
+import type { PitchData } from './PitchExtraction';
+
+// Bump when extraction changes in a way that makes stored tracks stale
+const CACHE_FORMAT_VERSION = 3;
+
+const QUOTA_STORAGE_KEY = 'pitchCacheQuotaMb';
+export const PITCH_CACHE_QUOTA_OPTIONS_MB = [50, 100, 250, 500, 1000];
+export const DEFAULT_PITCH_CACHE_QUOTA_MB = 250;
+
+interface PitchTrackRecord {
+  trackKey: string;
+  fileHash: string;
+  fileName: string;
+  settings: PitchAnalysisSettings;
+  // Indices of the segments stored for this track
+  segments: number[];
+  bytes: number;
+  lastUsed: number;
+  // Kept so the minimap works without decoding the file again
+  overview: AudioOverview | null;
+}
+
+interface PitchSegmentRecord {
+  trackKey: string;
+  index: number;
+  startTime: number;
+  endTime: number;
+  times: Float64Array;
+  // NaN marks unvoiced frames
+  pitches: Float32Array;
+  confidence: Float32Array;
+  amplitude: Float32Array;
+  intensity: Float32Array;
+}
+
+export interface CachedPitchSegment extends PitchData {
+  startTime: number;
+  endTime: number;
+}
+
+export interface CachedPitchTrack {
+  segments: Set<number>;
+  overview: AudioOverview | null;
+}
+
+export interface PitchTrackInfo {
+  trackKey: string;
+  fileHash: string;
+  fileName: string;
+  settings: PitchAnalysisSettings;
+  overview: AudioOverview | null;
+}
+
+export interface PitchCacheUsage {
+  bytes: number;
+  tracks: number;
+}
+
+const BYTES_PER_FRAME = 8 + 4 + 4 + 4 + 4;
+
+export function loadPitchCacheQuotaMb(): number {
+  try {
+    const stored = Number(window.localStorage.getItem(QUOTA_STORAGE_KEY));
+    if (PITCH_CACHE_QUOTA_OPTIONS_MB.includes(stored)) return stored;
+  } catch (error) {
+    console.warn('[PitchTrackCache] Could not read stored quota:', error);
+  }
+  return DEFAULT_PITCH_CACHE_QUOTA_MB;
+}
+
+export function savePitchCacheQuotaMb(quotaMb: number) {
+  try {
+    window.localStorage.setItem(QUOTA_STORAGE_KEY, String(quotaMb));
+  } catch (error) {
+    console.warn('[PitchTrackCache] Could not store quota:', error);
+  }
+}
+
+// Persists analysed pitch segments in IndexedDB, keyed by file content hash plus the
+// analysis settings and segment layout that produced them. Whole tracks are evicted,
+// least recently used first, once the stored size exceeds the quota.
+export class PitchTrackCache {
+  private quotaBytes: number;
+
+  constructor(quotaMb: number = loadPitchCacheQuotaMb()) {
+    this.quotaBytes = quotaMb * 1024 * 1024;
+  }
+
+  setQuotaMb(quotaMb: number) {
+    this.quotaBytes = quotaMb * 1024 * 1024;
+    this.enforceQuota(null).catch(error => console.warn('[PitchTrackCache] Could not apply quota:', error));
+  }
+
+  // `layout` is the segment duration, or 'full' when the file is analysed in one piece
+  getTrackKey(fileHash: string, settings: PitchAnalysisSettings, layout: number | 'full'): string {
+    const settingsKey = (Object.keys(settings) as (keyof PitchAnalysisSettings)[])
+      .sort()
+      .map(key => `${key}=${settings[key]}`)
+      .join('&');
+    return `v${CACHE_FORMAT_VERSION}|${fileHash}|seg=${layout}|${settingsKey}`;
+  }
+
+  // What is stored for a track, null on a miss; also marks the track as used
+  async openTrack(trackKey: string): Promise<CachedPitchTrack | null> {
+    const db = await openDatabase();
+    const transaction = db.transaction(PITCH_TRACK_STORE, 'readwrite');
+    const store = transaction.objectStore(PITCH_TRACK_STORE);
+    const track = await requestToPromise<PitchTrackRecord | undefined>(store.get(trackKey));
+    if (track) {
+      store.put({ ...track, lastUsed: Date.now() });
+    }
+    await transactionDone(transaction);
+    return track ? { segments: new Set(track.segments), overview: track.overview ?? null } : null;
+  }
+
+  async getSegment(trackKey: string, index: number): Promise<CachedPitchSegment | null> {
+    const db = await openDatabase();
+    const store = db.transaction(PITCH_SEGMENT_STORE, 'readonly').objectStore(PITCH_SEGMENT_STORE);
+    const record = await requestToPromise<PitchSegmentRecord | undefined>(store.get([trackKey, index]));
+    if (!record) return null;
+    return {
+      startTime: record.startTime,
+      endTime: record.endTime,
+      times: Array.from(record.times),
+      pitches: Array.from(record.pitches, p => (Number.isNaN(p) ? null : p)),
+      confidence: Array.from(record.confidence),
+      amplitude: Array.from(record.amplitude),
+      intensity: Array.from(record.intensity),
+    };
+  }
+
+  async putSegment(
+    track: PitchTrackInfo,
+    index: number,
+    segment: CachedPitchSegment
+  ) {
+    const bytes = segment.times.length * BYTES_PER_FRAME;
+    if (bytes === 0 || bytes > this.quotaBytes) return;
+
+    const db = await openDatabase();
+    const transaction = db.transaction([PITCH_TRACK_STORE, PITCH_SEGMENT_STORE], 'readwrite');
+    const trackStore = transaction.objectStore(PITCH_TRACK_STORE);
+    const existing = await requestToPromise<PitchTrackRecord | undefined>(trackStore.get(track.trackKey));
+    // Already stored, or this track alone would not fit; the empty transaction just commits
+    if (existing?.segments.includes(index) || (existing?.bytes ?? 0) + bytes > this.quotaBytes) return;
+
+    const record: PitchSegmentRecord = {
+      trackKey: track.trackKey,
+      index,
+      startTime: segment.startTime,
+      endTime: segment.endTime,
+      times: Float64Array.from(segment.times),
+      pitches: Float32Array.from(segment.pitches, p => p ?? NaN),
+      confidence: Float32Array.from(segment.confidence),
+      amplitude: Float32Array.from(segment.amplitude ?? []),
+      intensity: Float32Array.from(segment.intensity ?? []),
+    };
+    transaction.objectStore(PITCH_SEGMENT_STORE).put(record);
+    trackStore.put({
+      ...track,
+      segments: [...(existing?.segments ?? []), index],
+      bytes: (existing?.bytes ?? 0) + bytes,
+      lastUsed: Date.now(),
+      overview: existing?.overview ?? track.overview,
+    } satisfies PitchTrackRecord);
+    await transactionDone(transaction);
+
+    await this.enforceQuota(track.trackKey);
+  }
+
+  async getUsage(): Promise<PitchCacheUsage> {
+    const tracks = await this.getTracks();
+    return { bytes: tracks.reduce((sum, track) => sum + track.bytes, 0), tracks: tracks.length };
+  }
+
+  async clear() {
+    const db = await openDatabase();
+    const transaction = db.transaction([PITCH_TRACK_STORE, PITCH_SEGMENT_STORE], 'readwrite');
+    transaction.objectStore(PITCH_TRACK_STORE).clear();
+    transaction.objectStore(PITCH_SEGMENT_STORE).clear();
+    await transactionDone(transaction);
+    console.log('[PitchTrackCache] Cache cleared');
+  }
+
+  private async getTracks(): Promise<PitchTrackRecord[]> {
+    const db = await openDatabase();
+    const store = db.transaction(PITCH_TRACK_STORE, 'readonly').objectStore(PITCH_TRACK_STORE);
+    return requestToPromise<PitchTrackRecord[]>(store.getAll());
+  }
+
+  private async deleteTrack(trackKey: string) {
+    const db = await openDatabase();
+    const transaction = db.transaction([PITCH_TRACK_STORE, PITCH_SEGMENT_STORE], 'readwrite');
+    transaction.objectStore(PITCH_TRACK_STORE).delete(trackKey);
+    transaction.objectStore(PITCH_SEGMENT_STORE).delete(
+      IDBKeyRange.bound([trackKey, -Infinity], [trackKey, Infinity])
+    );
+    await transactionDone(transaction);
+  }
+
+  // Drop least recently used tracks (never `keepTrackKey`) until the cache fits the quota
+  private async enforceQuota(keepTrackKey: string | null) {
+    const tracks = await this.getTracks();
+    let total = tracks.reduce((sum, track) => sum + track.bytes, 0);
+    if (total <= this.quotaBytes) return;
+
+    const candidates = tracks.filter(track => track.trackKey !== keepTrackKey).sort((a, b) => a.lastUsed - b.lastUsed);
+    for (const track of candidates) {
+      if (total <= this.quotaBytes) break;
+      console.log(`[PitchTrackCache] Evicting ${track.fileName} (${(track.bytes / 1024).toFixed(0)} KB) to stay under quota`);
+      await this.deleteTrack(track.trackKey);
+      total -= track.bytes;
+    }
+  }
+}
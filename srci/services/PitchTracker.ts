@@ -0,0 +1,46 @@
+import { McLeodTracker } from './trackers/McLeodTracker';
+import { YinTracker } from './trackers/YinTracker';
+import { PyinTracker } from './trackers/PyinTracker';
+import { AutocorrelationTracker } from './trackers/AutocorrelationTracker';
+
+export type PitchAlgorithm = 'mpm' | 'yin' | 'pyin' | 'acf';
+
+export interface PitchTrackerOptions {
+  frameSize: number;
+  minPitch: number;
+  maxPitch: number;
+}
+
+// Common interface for frame-based F0 estimators
+export interface PitchTracker {
+  readonly algorithm: PitchAlgorithm;
+
+  // Returns [pitch in Hz, clarity 0-1] for a single frame of `frameSize` samples.
+  // Frames without a usable period report a clarity of 0.
+  findPitch(frame: Float32Array, sampleRate: number): [number, number];
+}
+
+export const PITCH_ALGORITHMS: { id: PitchAlgorithm; label: string }[] = [
+  { id: 'mpm', label: 'McLeod (MPM)' },
+  { id: 'yin', label: 'YIN' },
+  { id: 'pyin', label: 'Probabilistic YIN' },
+  { id: 'acf', label: 'Autocorrelation' },
+];
+
+export function isPitchAlgorithm(value: unknown): value is PitchAlgorithm {
+  return PITCH_ALGORITHMS.some(algorithm => algorithm.id === value);
+}
+
+export function createPitchTracker(algorithm: PitchAlgorithm, options: PitchTrackerOptions): PitchTracker {
+  switch (algorithm) {
+    case 'yin':
+      return new YinTracker(options);
+    case 'pyin':
+      return new PyinTracker(options);
+    case 'acf':
+      return new AutocorrelationTracker(options);
+    case 'mpm':
+    default:
+      return new McLeodTracker(options);
+  }
+}
@@ -0,0 +1,40 @@
+import { extractPitch } from './PitchExtraction';
+import type { PitchWorkerRequest, PitchWorkerResponse } from './PitchWorkerProtocol';
+
+// Jobs currently running, and those the main thread asked to cancel
+const activeJobs = new Set<number>();
+const cancelledJobs = new Set<number>();
+
+const post = (message: PitchWorkerResponse) => {
+  self.postMessage(message);
+};
+
+self.onmessage = async (event: MessageEvent<PitchWorkerRequest>) => {
+  const message = event.data;
+
+  if (message.type === 'cancel') {
+    if (activeJobs.has(message.jobId)) cancelledJobs.add(message.jobId);
+    return;
+  }
+
+  const { jobId, job } = message;
+  activeJobs.add(jobId);
+  try {
+    const data = await extractPitch(job, {
+      onProgress: progress => post({ type: 'progress', jobId, progress }),
+      isCancelled: () => cancelledJobs.has(jobId)
+    });
+
+    if (data === null || cancelledJobs.has(jobId)) {
+      post({ type: 'cancelled', jobId });
+    } else {
+      post({ type: 'result', jobId, data });
+    }
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    post({ type: 'error', jobId, message: errorMessage });
+  } finally {
+    activeJobs.delete(jobId);
+    cancelledJobs.delete(jobId);
+  }
+};
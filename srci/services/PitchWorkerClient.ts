@@ -0,0 +1,120 @@
+import type { PitchData, PitchExtractionJob } from './PitchExtraction';
+import type { PitchWorkerRequest, PitchWorkerResponse } from './PitchWorkerProtocol';
+
+export interface PitchExtractionOptions {
+  signal?: AbortSignal;
+  onProgress?: (fraction: number) => void;
+}
+
+interface PendingJob {
+  resolve: (data: PitchData) => void;
+  reject: (error: unknown) => void;
+  onProgress?: (fraction: number) => void;
+  cleanup: () => void;
+}
+
+export function createAbortError(): DOMException {
+  return new DOMException('Pitch extraction was cancelled', 'AbortError');
+}
+
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'AbortError';
+}
+
+// Main-thread side of the pitch worker. The worker is only spawned on the first job,
+// so constructing a client is cheap.
+export class PitchWorkerClient {
+  private worker: Worker | null = null;
+  private nextJobId = 1;
+  private jobs: Map<number, PendingJob> = new Map();
+
+  // Note: ownership of job.samples is transferred to the worker
+  extract(job: PitchExtractionJob, options: PitchExtractionOptions = {}): Promise<PitchData> {
+    const { signal, onProgress } = options;
+    if (signal?.aborted) return Promise.reject(createAbortError());
+
+    const worker = this.getWorker();
+    const jobId = this.nextJobId++;
+
+    return new Promise<PitchData>((resolve, reject) => {
+      const onAbort = () => {
+        console.log(`[PitchWorkerClient] Cancelling job ${jobId}`);
+        this.post({ type: 'cancel', jobId });
+        this.jobs.delete(jobId);
+        reject(createAbortError());
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      this.jobs.set(jobId, {
+        resolve,
+        reject,
+        onProgress,
+        cleanup: () => signal?.removeEventListener('abort', onAbort)
+      });
+
+      const message: PitchWorkerRequest = { type: 'extract', jobId, job };
+      worker.postMessage(message, [job.samples.buffer]);
+    });
+  }
+
+  terminate() {
+    this.worker?.terminate();
+    this.worker = null;
+    for (const pending of this.jobs.values()) {
+      pending.cleanup();
+      pending.reject(createAbortError());
+    }
+    this.jobs.clear();
+  }
+
+  private getWorker(): Worker {
+    if (!this.worker) {
+      this.worker = new Worker(new URL('./PitchWorker.ts', import.meta.url), { type: 'module' });
+      this.worker.onmessage = (event: MessageEvent<PitchWorkerResponse>) => this.handleMessage(event.data);
+      this.worker.onerror = (event: ErrorEvent) => {
+        console.error('[PitchWorkerClient] Worker error:', event.message);
+        // Fail every outstanding job; a fresh worker is created for the next one
+        const pendingJobs = Array.from(this.jobs.values());
+        this.jobs.clear();
+        this.worker?.terminate();
+        this.worker = null;
+        for (const pending of pendingJobs) {
+          pending.cleanup();
+          pending.reject(new Error(event.message || 'Pitch worker failed'));
+        }
+      };
+    }
+    return this.worker;
+  }
+
+  private post(message: PitchWorkerRequest) {
+    this.worker?.postMessage(message);
+  }
+
+  private handleMessage(message: PitchWorkerResponse) {
+    // Jobs that were aborted have already been removed; ignore their late messages
+    const pending = this.jobs.get(message.jobId);
+    if (!pending) return;
+
+    switch (message.type) {
+      case 'progress':
+        pending.onProgress?.(message.progress);
+        break;
+      case 'result':
+        this.jobs.delete(message.jobId);
+        pending.cleanup();
+        pending.resolve(message.data);
+        break;
+      case 'cancelled':
+        this.jobs.delete(message.jobId);
+        pending.cleanup();
+        pending.reject(createAbortError());
+        break;
+      case 'error':
+        this.jobs.delete(message.jobId);
+        pending.cleanup();
+        pending.reject(new Error(message.message));
+        break;
+    }
+  }
+}
@@ -0,0 +1,13 @@
+import type { PitchData, PitchExtractionJob } from './PitchExtraction';
+
+// Messages sent from the main thread to the pitch worker
+export type PitchWorkerRequest =
+  | { type: 'extract'; jobId: number; job: PitchExtractionJob }
+  | { type: 'cancel'; jobId: number };
+
+// Messages sent from the pitch worker back to the main thread
+export type PitchWorkerResponse =
+  | { type: 'progress'; jobId: number; progress: number }
+  | { type: 'result'; jobId: number; data: PitchData }
+  | { type: 'cancelled'; jobId: number }
+  | { type: 'error'; jobId: number; message: string };
@@ -0,0 +1,200 @@
+import type { PitchData } from './PitchExtraction';
+
+export interface PitchTier {
+  xmin: number;
+  xmax: number;
+  // Point times (seconds) and frequencies (Hz), in time order
+  times: number[];
+  frequencies: number[];
+}
+
+export interface TextGridInterval {
+  start: number;
+  end: number;
+  text: string;
+}
+
+export interface TextGridPoint {
+  time: number;
+  mark: string;
+}
+
+export type TextGridTier =
+  | { type: 'interval'; name: string; intervals: TextGridInterval[] }
+  | { type: 'point'; name: string; points: TextGridPoint[] };
+
+export interface TextGrid {
+  xmin: number;
+  xmax: number;
+  tiers: TextGridTier[];
+}
+
+export type PraatObject =
+  | { objectClass: 'PitchTier'; pitchTier: PitchTier }
+  | { objectClass: 'TextGrid'; textGrid: TextGrid };
+
+// Praat writes text files as UTF-8 or, when they contain non-ASCII labels, UTF-16
+export function decodePraatText(buffer: ArrayBuffer): string {
+  const bytes = new Uint8Array(buffer);
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return new TextDecoder('utf-16le').decode(bytes);
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return new TextDecoder('utf-16be').decode(bytes);
+  return new TextDecoder('utf-8').decode(bytes);
+}
+
+// Values in a Praat text file: quoted strings ("" escapes a quote), numbers and <flags>.
+// Long-format labels such as `xmin =` and indices such as `[1]` are skipped, so the long
+// and short text formats produce the same token stream.
+const TOKEN_PATTERN = /"((?:[^"]|"")*)"|<([a-z]+)>|(?<![\w[.])([-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?)(?![\w\]])/g;
+
+type Token = { kind: 'string'; value: string } | { kind: 'number'; value: number } | { kind: 'flag'; value: string };
+
+function tokenize(content: string): Token[] {
+  const tokens: Token[] = [];
+  // Drop '!' comments outside of strings
+  const lines = content.replace(/^\uFEFF/, '').split(/\r\n?|\n/).map(line => {
+    let inString = false;
+    for (let i = 0; i < line.length; i++) {
+      if (line[i] === '"') inString = !inString;
+      else if (line[i] === '!' && !inString) return line.slice(0, i);
+    }
+    return line;
+  });
+  for (const match of lines.join('\n').matchAll(TOKEN_PATTERN)) {
+    if (match[1] !== undefined) tokens.push({ kind: 'string', value: match[1].replace(/""/g, '"') });
+    else if (match[2] !== undefined) tokens.push({ kind: 'flag', value: match[2] });
+    else tokens.push({ kind: 'number', value: Number(match[3]) });
+  }
+  return tokens;
+}
+
+class TokenReader {
+  private tokens: Token[];
+  private position = 0;
+
+  constructor(tokens: Token[]) {
+    this.tokens = tokens;
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.position++];
+    if (!token) throw new Error('Unexpected end of Praat file');
+    return token;
+  }
+
+  number(): number {
+    const token = this.next();
+    if (token.kind !== 'number') throw new Error(`Expected a number in Praat file, found "${token.value}"`);
+    return token.value;
+  }
+
+  string(): string {
+    const token = this.next();
+    if (token.kind !== 'string') throw new Error(`Expected a string in Praat file, found ${token.value}`);
+    return token.value;
+  }
+
+  // Optional <exists>/<absent> flag
+  flag(): string | null {
+    const token = this.tokens[this.position];
+    if (token?.kind !== 'flag') return null;
+    this.position++;
+    return token.value;
+  }
+}
+
+function readPitchTier(reader: TokenReader): PitchTier {
+  const xmin = reader.number();
+  const xmax = reader.number();
+  const count = reader.number();
+  const times: number[] = [];
+  const frequencies: number[] = [];
+  for (let i = 0; i < count; i++) {
+    times.push(reader.number());
+    frequencies.push(reader.number());
+  }
+  return { xmin, xmax, times, frequencies };
+}
+
+function readTextGrid(reader: TokenReader): TextGrid {
+  const xmin = reader.number();
+  const xmax = reader.number();
+  if (reader.flag() === 'absent') return { xmin, xmax, tiers: [] };
+
+  const tierCount = reader.number();
+  const tiers: TextGridTier[] = [];
+  for (let t = 0; t < tierCount; t++) {
+    const tierClass = reader.string();
+    const name = reader.string();
+    reader.number(); // tier xmin
+    reader.number(); // tier xmax
+    const count = reader.number();
+
+    if (tierClass === 'IntervalTier') {
+      const intervals: TextGridInterval[] = [];
+      for (let i = 0; i < count; i++) {
+        intervals.push({ start: reader.number(), end: reader.number(), text: reader.string() });
+      }
+      tiers.push({ type: 'interval', name, intervals });
+    } else if (tierClass === 'TextTier') {
+      const points: TextGridPoint[] = [];
+      for (let i = 0; i < count; i++) {
+        points.push({ time: reader.number(), mark: reader.string() });
+      }
+      tiers.push({ type: 'point', name, points });
+    } else {
+      throw new Error(`Unsupported TextGrid tier class "${tierClass}"`);
+    }
+  }
+  return { xmin, xmax, tiers };
+}
+
+// Parse a Praat PitchTier or TextGrid saved as text or short text
+export function parsePraatFile(content: string): PraatObject {
+  const reader = new TokenReader(tokenize(content));
+  if (reader.string() !== 'ooTextFile') throw new Error('Not a Praat text file');
+  const objectClass = reader.string().split(' ')[0];
+
+  if (objectClass === 'PitchTier') {
+    const pitchTier = readPitchTier(reader);
+    console.log(`[PraatParser] Parsed PitchTier with ${pitchTier.times.length} points`);
+    return { objectClass, pitchTier };
+  }
+  if (objectClass === 'TextGrid') {
+    const textGrid = readTextGrid(reader);
+    console.log(`[PraatParser] Parsed TextGrid with ${textGrid.tiers.length} tiers`);
+    return { objectClass, textGrid };
+  }
+  throw new Error(`Unsupported Praat object class "${objectClass}"`);
+}
+
+// Resample a PitchTier onto a regular frame grid so it can stand in for detected pitch.
+// Points further apart than `maxGap` are treated as an unvoiced stretch, not interpolated.
+export function pitchTierToPitchData(tier: PitchTier, step = 0.01, maxGap = 0.05): PitchData {
+  const times: number[] = [];
+  const pitches: (number | null)[] = [];
+  const confidence: number[] = [];
+  if (tier.times.length === 0) return { times, pitches, confidence };
+
+  let k = 0;
+  const frameCount = Math.floor((tier.xmax - tier.xmin) / step) + 1;
+  for (let f = 0; f < frameCount; f++) {
+    const t = tier.xmin + f * step;
+    while (k < tier.times.length - 1 && tier.times[k + 1] <= t) k++;
+    const a = k;
+    const b = Math.min(k + 1, tier.times.length - 1);
+    let pitch: number | null = null;
+    const nearest = Math.abs(tier.times[b] - t) < Math.abs(tier.times[a] - t) ? b : a;
+    if (Math.abs(tier.times[nearest] - t) < step / 2) {
+      // Isolated points (and the ends of a run) still show up
+      pitch = tier.frequencies[nearest];
+    } else if (tier.times[a] <= t && tier.times[b] >= t && tier.times[b] - tier.times[a] <= maxGap) {
+      const progress = tier.times[b] > tier.times[a] ? (t - tier.times[a]) / (tier.times[b] - tier.times[a]) : 0;
+      pitch = tier.frequencies[a] + (tier.frequencies[b] - tier.frequencies[a]) * progress;
+    }
+    times.push(t);
+    pitches.push(pitch);
+    // Hand-checked values are trusted fully
+    confidence.push(pitch !== null ? 1 : 0);
+  }
+  return { times, pitches, confidence };
+}
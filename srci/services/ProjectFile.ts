@@ -0,0 +1,147 @@
+// Practice session bundle: a small binary header, a JSON manifest and the media blobs
+// appended one after another. Blobs are sliced straight out of the file when it is
+// opened, so even long videos are never copied into a string or base64.
+//
+//   bytes 0-7   magic 'PAWPROJ1'
+//   bytes 8-11  manifest length (uint32, little endian)
+//   then        manifest JSON (UTF-8), followed by the blobs it describes
+
+const MAGIC = 'PAWPROJ1';
+const HEADER_BYTES = MAGIC.length + 4;
+const FORMAT_VERSION = 1;
+
+export const PROJECT_FILE_EXTENSION = '.pawproject';
+
+export interface ProjectBookmark {
+  name: string;
+  start: number;
+  end: number;
+  note: string;
+  tags: string[];
+}
+
+export interface ProjectTake {
+  name: string;
+  createdAt: number;
+  // Loop region the take was recorded against
+  loopStart: number;
+  loopEnd: number;
+  pinned: boolean;
+  blob: Blob;
+  // Untrimmed recording, null when `blob` is the recording as captured
+  originalBlob: Blob | null;
+  trimOffset: number;
+}
+
+export interface ProjectState {
+  native: { name: string; type: string; blob: Blob } | null;
+  loopStart: number;
+  loopEnd: number;
+  loopDelay: number;
+  autoLoopEnabled: boolean;
+  // Native chart viewport in seconds
+  viewRange: { start: number; end: number } | null;
+  bookmarks: ProjectBookmark[];
+  takes: ProjectTake[];
+}
+
+interface BlobEntry {
+  offset: number;
+  size: number;
+  type: string;
+}
+
+interface ProjectManifest {
+  format: 'pitch-accent-web/project';
+  version: number;
+  savedAt: string;
+  native: { name: string; blob: BlobEntry } | null;
+  loopStart: number;
+  loopEnd: number;
+  loopDelay: number;
+  autoLoopEnabled: boolean;
+  viewRange: { start: number; end: number } | null;
+  bookmarks: ProjectBookmark[];
+  takes: (Omit<ProjectTake, 'blob' | 'originalBlob'> & { blob: BlobEntry; originalBlob?: BlobEntry })[];
+}
+
+export function writeProjectFile(state: ProjectState): Blob {
+  const blobs: Blob[] = [];
+  let offset = 0;
+  const addBlob = (blob: Blob, type: string): BlobEntry => {
+    const entry = { offset, size: blob.size, type };
+    blobs.push(blob);
+    offset += blob.size;
+    return entry;
+  };
+
+  const manifest: ProjectManifest = {
+    format: 'pitch-accent-web/project',
+    version: FORMAT_VERSION,
+    savedAt: new Date().toISOString(),
+    native: state.native ? { name: state.native.name, blob: addBlob(state.native.blob, state.native.type) } : null,
+    loopStart: state.loopStart,
+    loopEnd: state.loopEnd,
+    loopDelay: state.loopDelay,
+    autoLoopEnabled: state.autoLoopEnabled,
+    viewRange: state.viewRange,
+    bookmarks: state.bookmarks,
+    takes: state.takes.map(take => ({
+      ...take,
+      blob: addBlob(take.blob, take.blob.type),
+      originalBlob: take.originalBlob ? addBlob(take.originalBlob, take.originalBlob.type) : undefined,
+    })),
+  };
+
+  const manifestBytes = new TextEncoder().encode(JSON.stringify(manifest));
+  const header = new Uint8Array(HEADER_BYTES);
+  header.set(new TextEncoder().encode(MAGIC), 0);
+  new DataView(header.buffer).setUint32(MAGIC.length, manifestBytes.length, true);
+
+  console.log(`[ProjectFile] Writing project with ${state.takes.length} takes, ${offset} bytes of media`);
+  return new Blob([header, manifestBytes, ...blobs], { type: 'application/octet-stream' });
+}
+
+export async function readProjectFile(file: Blob): Promise<ProjectState> {
+  const header = new Uint8Array(await file.slice(0, HEADER_BYTES).arrayBuffer());
+  if (header.length < HEADER_BYTES || new TextDecoder().decode(header.subarray(0, MAGIC.length)) !== MAGIC) {
+    throw new Error('Not a project file');
+  }
+  const manifestLength = new DataView(header.buffer).getUint32(MAGIC.length, true);
+  const dataStart = HEADER_BYTES + manifestLength;
+  if (dataStart > file.size) throw new Error('Project file is truncated');
+
+  const manifest = JSON.parse(await file.slice(HEADER_BYTES, dataStart).text()) as ProjectManifest;
+  if (manifest.format !== 'pitch-accent-web/project' || manifest.version > FORMAT_VERSION) {
+    throw new Error('Unsupported project file version');
+  }
+
+  const readBlob = (entry: BlobEntry): Blob => {
+    const start = dataStart + entry.offset;
+    if (start + entry.size > file.size) throw new Error('Project file is truncated');
+    return file.slice(start, start + entry.size, entry.type);
+  };
+
+  return {
+    native: manifest.native
+      ? { name: manifest.native.name, type: manifest.native.blob.type, blob: readBlob(manifest.native.blob) }
+      : null,
+    loopStart: manifest.loopStart,
+    loopEnd: manifest.loopEnd,
+    loopDelay: manifest.loopDelay ?? 0,
+    autoLoopEnabled: manifest.autoLoopEnabled ?? false,
+    viewRange: manifest.viewRange ?? null,
+    bookmarks: manifest.bookmarks ?? [],
+    takes: (manifest.takes ?? []).map(take => ({
+      name: take.name,
+      createdAt: take.createdAt,
+      // Takes saved before the take history belong to the saved loop
+      loopStart: take.loopStart ?? manifest.loopStart,
+      loopEnd: take.loopEnd ?? manifest.loopEnd,
+      pinned: take.pinned ?? false,
+      blob: readBlob(take.blob),
+      originalBlob: take.originalBlob ? readBlob(take.originalBlob) : null,
+      trimOffset: take.trimOffset ?? 0,
+    })),
+  };
+}
@@ -0,0 +1,145 @@
+import { warpTime } from './TimeAlignment';
+import type { PitchContour, TimeWarp } from './TimeAlignment';
+
+// A stretch of the native loop where the user's contour is clearly off
+export interface DeviationRegion {
+  // On the native media timeline, in seconds
+  start: number;
+  end: number;
+  // Mean signed deviation in semitones (positive: the user is higher than the native speaker)
+  meanDeviation: number;
+}
+
+export interface PronunciationScore {
+  // 0-100
+  overall: number;
+  // Mean absolute deviation over the compared frames, in semitones
+  meanAbsoluteDeviation: number;
+  // Fraction (0-1) of voiced native frames that had a voiced user frame to compare against
+  coverage: number;
+  regions: DeviationRegion[];
+  // Per native frame deviation in semitones, null where nothing was compared
+  deviations: (number | null)[];
+}
+
+export interface ScoringOptions {
+  // Mean absolute deviation (semitones) at which the contour score drops to ~37
+  deviationScale?: number;
+  // Frames further off than this (semitones) can start a deviation region
+  regionThreshold?: number;
+  // Regions shorter than this (seconds) are dropped
+  minRegionDuration?: number;
+  // Regions closer than this (seconds) are merged
+  mergeGap?: number;
+  // User voicing gaps longer than this (seconds) are not interpolated across
+  maxUserGap?: number;
+}
+
+const DEFAULTS: Required<ScoringOptions> = {
+  deviationScale: 3,
+  regionThreshold: 2,
+  minRegionDuration: 0.08,
+  mergeGap: 0.05,
+  maxUserGap: 0.1,
+};
+
+// Share of the score that depends on voicing coverage rather than contour shape
+const COVERAGE_WEIGHT = 0.3;
+
+// Semitones relative to the contour's own median, so different voice ranges compare fairly
+export function normalizeContour(pitches: (number | null)[]): (number | null)[] {
+  const voiced = pitches.filter((p): p is number => p !== null && p > 0).sort((a, b) => a - b);
+  if (voiced.length === 0) return pitches.map(() => null);
+  const median = voiced[Math.floor(voiced.length / 2)];
+  return pitches.map(p => (p !== null && p > 0 ? 12 * Math.log2(p / median) : null));
+}
+
+// Resample the user's normalised contour onto the native frame times through the warp
+export function projectUserContour(
+  native: PitchContour,
+  user: PitchContour,
+  warp: TimeWarp | null,
+  maxUserGap = DEFAULTS.maxUserGap
+): (number | null)[] {
+  const userValues = normalizeContour(user.pitches);
+  const points = user.times
+    .map((t, i) => ({ t: warp ? warpTime(warp, t) : t, value: userValues[i] }))
+    .filter((p): p is { t: number; value: number } => p.value !== null);
+  if (points.length === 0) return native.times.map(() => null);
+
+  let k = 0;
+  return native.times.map(t => {
+    while (k < points.length - 1 && points[k + 1].t <= t) k++;
+    const a = points[k];
+    const b = points[Math.min(k + 1, points.length - 1)];
+    if (t < a.t || t > b.t) return null;
+    if (b.t - a.t > maxUserGap) return null;
+    const progress = b.t > a.t ? (t - a.t) / (b.t - a.t) : 0;
+    return a.value + (b.value - a.value) * progress;
+  });
+}
+
+// Group frames that are clearly off into regions on the native timeline
+export function findDeviationRegions(
+  times: number[],
+  deviations: (number | null)[],
+  options: ScoringOptions = {}
+): DeviationRegion[] {
+  const { regionThreshold, minRegionDuration, mergeGap } = { ...DEFAULTS, ...options };
+  const raw: { start: number; end: number; sum: number; count: number }[] = [];
+
+  let current: { start: number; end: number; sum: number; count: number } | null = null;
+  for (let i = 0; i < times.length; i++) {
+    const d = deviations[i];
+    if (d !== null && Math.abs(d) > regionThreshold) {
+      if (current && times[i] - current.end <= mergeGap) {
+        current.end = times[i];
+        current.sum += d;
+        current.count++;
+      } else {
+        if (current) raw.push(current);
+        current = { start: times[i], end: times[i], sum: d, count: 1 };
+      }
+    }
+  }
+  if (current) raw.push(current);
+
+  return raw
+    .filter(region => region.end - region.start >= minRegionDuration)
+    .map(region => ({ start: region.start, end: region.end, meanDeviation: region.sum / region.count }));
+}
+
+// Score a user take against the native loop. Both contours are normalised to their own
+// median; the user's timing is mapped onto the native one with `warp` when given.
+export function scoreTake(
+  native: PitchContour,
+  user: PitchContour,
+  warp: TimeWarp | null,
+  options: ScoringOptions = {}
+): PronunciationScore | null {
+  const settings = { ...DEFAULTS, ...options };
+  const nativeValues = normalizeContour(native.pitches);
+  const userValues = projectUserContour(native, user, warp, settings.maxUserGap);
+
+  const deviations = nativeValues.map((value, i) => {
+    const userValue = userValues[i];
+    return value !== null && userValue !== null ? userValue - value : null;
+  });
+
+  const nativeVoiced = nativeValues.filter(v => v !== null).length;
+  const compared = deviations.filter((d): d is number => d !== null);
+  if (nativeVoiced === 0 || compared.length === 0) return null;
+
+  const meanAbsoluteDeviation = compared.reduce((sum, d) => sum + Math.abs(d), 0) / compared.length;
+  const coverage = compared.length / nativeVoiced;
+  const contourScore = Math.exp(-meanAbsoluteDeviation / settings.deviationScale);
+  const overall = Math.round(100 * contourScore * (1 - COVERAGE_WEIGHT + COVERAGE_WEIGHT * coverage));
+
+  return {
+    overall,
+    meanAbsoluteDeviation,
+    coverage,
+    regions: findDeviationRegions(native.times, deviations, settings),
+    deviations,
+  };
+}
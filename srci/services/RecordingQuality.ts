@@ -0,0 +1,105 @@
+import { decodeRecording, detectSpeechRegion } from './VoiceActivity';
+import type { PitchData } from './PitchExtraction';
+
+// Levels in dBFS. Samples this close to full scale count as clipped.
+export const CLIP_LEVEL_DB = -0.1;
+// Peaks below this are too quiet for the pitch trackers to lock on reliably
+export const QUIET_PEAK_DB = -30;
+// Speech should stand this far above the background noise
+const MIN_SNR_DB = 15;
+// Fewer voiced frames than this inside the speech usually means noise or a whisper
+const MIN_VOICED_RATIO = 0.4;
+
+const FRAME_DURATION = 0.02;
+const HOP_DURATION = 0.01;
+
+export interface RecordingQuality {
+  peakDb: number;
+  // RMS over the detected speech, or the whole recording if none was found
+  rmsDb: number;
+  // Speech level over the noise floor; null without detectable speech
+  snrDb: number | null;
+  // Share of pitch frames inside the speech that came out voiced
+  voicedRatio: number | null;
+  clipped: boolean;
+  warnings: string[];
+}
+
+export const toDbfs = (amplitude: number) => 20 * Math.log10(amplitude + 1e-9);
+const powerToDb = (power: number) => 10 * Math.log10(power + 1e-12);
+
+// `pitchData` times may be offset from the samples, e.g. when the pitch was extracted from
+// a trimmed copy: sample time = pitch time + pitchOffset.
+export function measureRecordingQuality(
+  samples: Float32Array,
+  sampleRate: number,
+  pitchData: PitchData | null,
+  pitchOffset = 0
+): RecordingQuality {
+  let peak = 0;
+  let total = 0;
+  for (let i = 0; i < samples.length; i++) {
+    const value = Math.abs(samples[i]);
+    if (value > peak) peak = value;
+    total += samples[i] * samples[i];
+  }
+  const peakDb = toDbfs(peak);
+  const clipped = peakDb >= CLIP_LEVEL_DB;
+
+  const region = detectSpeechRegion(samples, sampleRate);
+  let rmsDb = powerToDb(total / Math.max(1, samples.length));
+  let snrDb: number | null = null;
+  let voicedRatio: number | null = null;
+
+  if (region) {
+    const frameSamples = Math.max(1, Math.round(FRAME_DURATION * sampleRate));
+    const hopSamples = Math.max(1, Math.round(HOP_DURATION * sampleRate));
+    const frameDb: number[] = [];
+    for (let start = 0; start + frameSamples <= samples.length; start += hopSamples) {
+      let sum = 0;
+      for (let i = start; i < start + frameSamples; i++) sum += samples[i] * samples[i];
+      frameDb.push(powerToDb(sum / frameSamples));
+    }
+    const sorted = [...frameDb].sort((a, b) => a - b);
+    const noiseFloor = sorted[Math.floor(sorted.length * 0.1)];
+
+    const startSample = Math.floor(region.start * sampleRate);
+    const endSample = Math.min(samples.length, Math.ceil(region.end * sampleRate));
+    let speechTotal = 0;
+    for (let i = startSample; i < endSample; i++) speechTotal += samples[i] * samples[i];
+    rmsDb = powerToDb(speechTotal / Math.max(1, endSample - startSample));
+    snrDb = rmsDb - noiseFloor;
+
+    if (pitchData) {
+      let frames = 0;
+      let voiced = 0;
+      pitchData.times.forEach((time, i) => {
+        const sampleTime = time + pitchOffset;
+        if (sampleTime < region.start || sampleTime > region.end) return;
+        frames++;
+        if (pitchData.pitches[i] !== null) voiced++;
+      });
+      voicedRatio = frames > 0 ? voiced / frames : null;
+    }
+  }
+
+  const warnings: string[] = [];
+  if (clipped) warnings.push('The recording clips. Lower the input gain or move back from the microphone.');
+  if (peakDb < QUIET_PEAK_DB) warnings.push('The recording is very quiet. Move closer or raise the input gain.');
+  if (!region) warnings.push('No speech was detected.');
+  if (snrDb !== null && snrDb < MIN_SNR_DB) warnings.push('Background noise is loud compared to your voice.');
+  if (voicedRatio !== null && voicedRatio < MIN_VOICED_RATIO) {
+    warnings.push('Little of the speech has a detectable pitch, so the curve may be unreliable.');
+  }
+
+  return { peakDb, rmsDb, snrDb, voicedRatio, clipped, warnings };
+}
+
+export async function analyseRecordingQuality(
+  blob: Blob,
+  pitchData: PitchData | null,
+  pitchOffset = 0
+): Promise<RecordingQuality> {
+  const audioBuffer = await decodeRecording(blob);
+  return measureRecordingQuality(audioBuffer.getChannelData(0), audioBuffer.sampleRate, pitchData, pitchOffset);
+}
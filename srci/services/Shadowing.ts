@@ -0,0 +1,97 @@
+// Listen, repeat, compare: plays the native loop and records the learner, cycle after cycle
+
+// Extra recording time after the loop duration, so a slow repetition is not cut off
+const RECORDING_MARGIN_SECONDS = 0.75;
+// Pause after each take so the comparison can be looked at before the next cycle
+const REVIEW_PAUSE_MS = 2500;
+
+export type ShadowingPhase = 'listening' | 'waiting' | 'recording' | 'reviewing';
+
+export interface ShadowingStatus {
+  cycle: number;
+  cycles: number;
+  phase: ShadowingPhase;
+}
+
+export interface ShadowingOptions {
+  cycles: number;
+  // Record while the native loop plays instead of after it
+  simultaneous: boolean;
+  loopDuration: number;
+  delayMs: number;
+}
+
+export interface ShadowingCallbacks {
+  // Play the loop once from its start; resolves when playback stops at the loop end
+  playNativeLoop: (signal: AbortSignal) => Promise<void>;
+  // Resolves to false if recording could not be started
+  startRecording: (options: { headphoneSafe: boolean }) => Promise<boolean>;
+  stopRecording: () => void;
+  onStatus: (status: ShadowingStatus) => void;
+}
+
+export const createShadowingAbortError = () => new DOMException('Shadowing was stopped', 'AbortError');
+
+function wait(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal.aborted) {
+      reject(createShadowingAbortError());
+      return;
+    }
+    const timeout = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timeout);
+      reject(createShadowingAbortError());
+    };
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+// Runs until all cycles are done or the signal is aborted (rejects with an AbortError).
+// A recording still running when the session is stopped is stopped as well.
+export async function runShadowing(options: ShadowingOptions, callbacks: ShadowingCallbacks, signal: AbortSignal) {
+  const { cycles, simultaneous, loopDuration, delayMs } = options;
+  let recording = false;
+  const startRecording = async () => {
+    if (!(await callbacks.startRecording({ headphoneSafe: simultaneous }))) {
+      throw new Error('Could not start recording');
+    }
+    recording = true;
+  };
+  const stopRecording = () => {
+    if (!recording) return;
+    recording = false;
+    callbacks.stopRecording();
+  };
+
+  console.log(`[Shadowing] Starting ${cycles} cycles, ${simultaneous ? 'simultaneous' : 'after the loop'}`);
+  try {
+    for (let cycle = 1; cycle <= cycles; cycle++) {
+      if (simultaneous) {
+        callbacks.onStatus({ cycle, cycles, phase: 'recording' });
+        await startRecording();
+        await callbacks.playNativeLoop(signal);
+        await wait(RECORDING_MARGIN_SECONDS * 1000, signal);
+      } else {
+        callbacks.onStatus({ cycle, cycles, phase: 'listening' });
+        await callbacks.playNativeLoop(signal);
+        callbacks.onStatus({ cycle, cycles, phase: 'waiting' });
+        await wait(delayMs, signal);
+        callbacks.onStatus({ cycle, cycles, phase: 'recording' });
+        await startRecording();
+        await wait((loopDuration + RECORDING_MARGIN_SECONDS) * 1000, signal);
+      }
+      stopRecording();
+
+      if (cycle < cycles) {
+        callbacks.onStatus({ cycle, cycles, phase: 'reviewing' });
+        await wait(REVIEW_PAUSE_MS, signal);
+      }
+    }
+  } finally {
+    stopRecording();
+  }
+}
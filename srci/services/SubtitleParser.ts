@@ -0,0 +1,107 @@
+export interface SubtitleCue {
+  index: number;
+  // Seconds on the media timeline
+  start: number;
+  end: number;
+  text: string;
+}
+
+export type SubtitleFormat = 'srt' | 'vtt' | 'ass';
+
+// Parses 'hh:mm:ss,mmm', 'hh:mm:ss.mmm', 'mm:ss.mmm' and ASS 'h:mm:ss.cc' timestamps
+export function parseTimestamp(value: string): number | null {
+  const match = value.trim().match(/^(?:(\d+):)?(\d{1,2}):(\d{1,2})(?:[.,](\d{1,3}))?$/);
+  if (!match) return null;
+  const [, hours, minutes, seconds, fraction] = match;
+  // '34' as centiseconds in ASS, '345' as milliseconds elsewhere
+  const fractionSeconds = fraction ? Number(fraction) / Math.pow(10, fraction.length) : 0;
+  return Number(hours ?? 0) * 3600 + Number(minutes) * 60 + Number(seconds) + fractionSeconds;
+}
+
+// Remove markup that should not show up in the cue list
+const stripTags = (text: string) => text.replace(/<[^>]+>/g, '').trim();
+
+export function detectSubtitleFormat(content: string, fileName = ''): SubtitleFormat {
+  const extension = fileName.toLowerCase().split('.').pop();
+  if (extension === 'ass' || extension === 'ssa' || /^\s*\[Script Info\]/i.test(content)) return 'ass';
+  if (extension === 'vtt' || /^\uFEFF?WEBVTT/.test(content)) return 'vtt';
+  return 'srt';
+}
+
+// SRT and WebVTT share the same block structure: optional id, timing line, text lines
+function parseBlocks(content: string, format: 'srt' | 'vtt'): SubtitleCue[] {
+  const cues: SubtitleCue[] = [];
+  const blocks = content.replace(/\r\n?/g, '\n').split(/\n{2,}/);
+
+  for (const block of blocks) {
+    const lines = block.split('\n').filter(line => line.trim() !== '');
+    if (format === 'vtt' && lines.length > 0 && /^(WEBVTT|NOTE|STYLE|REGION)\b/.test(lines[0].replace(/^\uFEFF/, ''))) {
+      continue;
+    }
+
+    const timingIndex = lines.findIndex(line => line.includes('-->'));
+    if (timingIndex < 0) continue;
+
+    const [startPart, endPart] = lines[timingIndex].split('-->');
+    // VTT cue settings follow the end time
+    const start = parseTimestamp(startPart);
+    const end = parseTimestamp(endPart.trim().split(/\s+/)[0]);
+    if (start === null || end === null || end <= start) continue;
+
+    const text = stripTags(lines.slice(timingIndex + 1).join('\n'));
+    if (!text) continue;
+    cues.push({ index: cues.length, start, end, text });
+  }
+  return cues;
+}
+
+function parseAss(content: string): SubtitleCue[] {
+  const cues: SubtitleCue[] = [];
+  let inEvents = false;
+  let fields: string[] = [];
+
+  for (const rawLine of content.replace(/\r\n?/g, '\n').split('\n')) {
+    const line = rawLine.trim();
+    if (line.startsWith('[')) {
+      inEvents = /^\[Events\]$/i.test(line);
+      continue;
+    }
+    if (!inEvents) continue;
+
+    if (/^Format:/i.test(line)) {
+      fields = line.slice(line.indexOf(':') + 1).split(',').map(field => field.trim().toLowerCase());
+      continue;
+    }
+    if (!/^Dialogue:/i.test(line) || fields.length === 0) continue;
+
+    // The text field is last and may itself contain commas
+    const values = line.slice(line.indexOf(':') + 1).split(',');
+    const head = values.slice(0, fields.length - 1).map(value => value.trim());
+    const textValue = values.slice(fields.length - 1).join(',');
+    const field = (name: string) => head[fields.indexOf(name)];
+
+    const start = parseTimestamp(field('start') ?? '');
+    const end = parseTimestamp(field('end') ?? '');
+    if (start === null || end === null || end <= start) continue;
+
+    const text = textValue
+      .replace(/\{[^}]*\}/g, '') // override tags such as {\i1}
+      .replace(/\\N/gi, '\n')
+      .replace(/\\h/g, ' ')
+      .trim();
+    if (!text) continue;
+    cues.push({ index: cues.length, start, end, text });
+  }
+  return cues;
+}
+
+// Parse an SRT, WebVTT or ASS/SSA file into cues sorted by start time
+export function parseSubtitles(content: string, fileName = ''): SubtitleCue[] {
+  const format = detectSubtitleFormat(content, fileName);
+  const cues = format === 'ass' ? parseAss(content) : parseBlocks(content, format);
+
+  cues.sort((a, b) => a.start - b.start);
+  cues.forEach((cue, i) => (cue.index = i));
+  console.log(`[SubtitleParser] Parsed ${cues.length} ${format.toUpperCase()} cues from ${fileName || 'subtitle file'}`);
+  return cues;
+}
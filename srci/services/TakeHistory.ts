@@ -0,0 +1,43 @@
+import type { PitchData } from './PitchExtraction';
+
+// Unpinned takes kept per loop region; older ones are dropped as new takes come in
+export const MAX_UNPINNED_TAKES_PER_LOOP = 20;
+
+export interface UserTake {
+  id: string;
+  // Audio that is played and analysed: the recording with its silent ends trimmed off,
+  // or the original when it was not trimmed
+  blob: Blob;
+  originalBlob: Blob;
+  // Seconds cut from the start of the original, so take times map back onto it
+  trimOffset: number;
+  createdAt: number;
+  // Loop region the take was recorded against
+  loopStart: number;
+  loopEnd: number;
+  // Null until the take has been analysed and scored
+  pitchData: PitchData | null;
+  score: number | null;
+  pinned: boolean;
+}
+
+export function createTakeId(): string {
+  return typeof crypto.randomUUID === 'function'
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+export function isTakeForLoop(take: UserTake, loopStart: number, loopEnd: number): boolean {
+  return Math.abs(take.loopStart - loopStart) < 0.05 && Math.abs(take.loopEnd - loopEnd) < 0.05;
+}
+
+// Append a take, dropping the oldest unpinned takes of its loop region beyond the limit
+export function addTake(takes: UserTake[], take: UserTake): UserTake[] {
+  const next = [...takes, take];
+  const unpinned = next.filter(t => !t.pinned && isTakeForLoop(t, take.loopStart, take.loopEnd));
+  const dropped = new Set(unpinned.slice(0, Math.max(0, unpinned.length - MAX_UNPINNED_TAKES_PER_LOOP)));
+  if (dropped.size > 0) {
+    console.log(`[TakeHistory] Dropping ${dropped.size} old takes for loop ${take.loopStart.toFixed(2)}-${take.loopEnd.toFixed(2)}`);
+  }
+  return next.filter(t => !dropped.has(t));
+}
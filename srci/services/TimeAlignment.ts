@@ -0,0 +1,171 @@
+// Dynamic time warping of F0 contours, used to line a user take up with the native loop.
+// Contours are compared in semitones relative to each speaker's median, so a male learner
+// can be aligned against a female native speaker.
+
+export interface PitchContour {
+  times: number[];
+  pitches: (number | null)[];
+}
+
+// Piecewise-linear map from user time to native time, as matching anchor points
+export interface TimeWarp {
+  userTimes: number[];
+  nativeTimes: number[];
+}
+
+export interface AlignmentOptions {
+  // Width of the Sakoe-Chiba band as a fraction of the longer contour
+  bandRatio?: number;
+  // Contours are resampled to this many frames per second before warping
+  frameRate?: number;
+}
+
+const DEFAULT_BAND_RATIO = 0.25;
+const DEFAULT_FRAME_RATE = 50;
+
+// Upper bound on the DTW cost matrix; long loops are warped at a lower frame rate
+const MAX_DTW_CELLS = 4_000_000;
+
+// Resample to a fixed frame rate between the first and last voiced frames, in semitones
+// relative to the median. Unvoiced gaps are bridged by linear interpolation.
+function prepareContour(contour: PitchContour, frameRate: number): { start: number; values: number[] } | null {
+  const voiced = contour.pitches.flatMap((p, i) => (p !== null && p > 0 ? [i] : []));
+  if (voiced.length < 2) return null;
+
+  const sorted = voiced.map(i => contour.pitches[i] as number).sort((a, b) => a - b);
+  const median = sorted[Math.floor(sorted.length / 2)];
+
+  const start = contour.times[voiced[0]];
+  const end = contour.times[voiced[voiced.length - 1]];
+  const frameCount = Math.max(2, Math.round((end - start) * frameRate) + 1);
+
+  const values: number[] = [];
+  let k = 0;
+  for (let f = 0; f < frameCount; f++) {
+    const t = start + f / frameRate;
+    while (k < voiced.length - 2 && contour.times[voiced[k + 1]] <= t) k++;
+    const t0 = contour.times[voiced[k]];
+    const t1 = contour.times[voiced[k + 1]];
+    const p0 = contour.pitches[voiced[k]] as number;
+    const p1 = contour.pitches[voiced[k + 1]] as number;
+    const progress = t1 > t0 ? Math.min(1, Math.max(0, (t - t0) / (t1 - t0))) : 0;
+    const hz = p0 + (p1 - p0) * progress;
+    values.push(12 * Math.log2(hz / median));
+  }
+  return { start, values };
+}
+
+// Classic DTW with a band constraint. Returns the optimal path as [nativeIndex, userIndex] pairs.
+export function dynamicTimeWarp(native: number[], user: number[], bandRatio = DEFAULT_BAND_RATIO): [number, number][] {
+  const n = native.length;
+  const m = user.length;
+  if (n === 0 || m === 0) return [];
+
+  // The band has to be wide enough to reach the corner when the lengths differ
+  const band = Math.max(Math.ceil(Math.max(n, m) * bandRatio), Math.abs(n - m) + 1);
+  const cost = new Float64Array(n * m).fill(Infinity);
+  const at = (i: number, j: number) => i * m + j;
+
+  for (let i = 0; i < n; i++) {
+    // Centre the band on the diagonal between the two corners
+    const centre = Math.round((i * (m - 1)) / Math.max(1, n - 1));
+    const from = Math.max(0, centre - band);
+    const to = Math.min(m - 1, centre + band);
+    for (let j = from; j <= to; j++) {
+      const distance = Math.abs(native[i] - user[j]);
+      if (i === 0 && j === 0) {
+        cost[at(i, j)] = distance;
+        continue;
+      }
+      const diagonal = i > 0 && j > 0 ? cost[at(i - 1, j - 1)] : Infinity;
+      const up = i > 0 ? cost[at(i - 1, j)] : Infinity;
+      const left = j > 0 ? cost[at(i, j - 1)] : Infinity;
+      cost[at(i, j)] = distance + Math.min(diagonal, up, left);
+    }
+  }
+
+  // Trace the cheapest path back from the end
+  const path: [number, number][] = [];
+  let i = n - 1;
+  let j = m - 1;
+  path.push([i, j]);
+  while (i > 0 || j > 0) {
+    if (i === 0) j--;
+    else if (j === 0) i--;
+    else {
+      const diagonal = cost[at(i - 1, j - 1)];
+      const up = cost[at(i - 1, j)];
+      const left = cost[at(i, j - 1)];
+      if (diagonal <= up && diagonal <= left) {
+        i--;
+        j--;
+      } else if (up <= left) {
+        i--;
+      } else {
+        j--;
+      }
+    }
+    path.push([i, j]);
+  }
+  return path.reverse();
+}
+
+// Align the voiced part of a user take to the voiced part of the native loop
+export function alignContours(native: PitchContour, user: PitchContour, options: AlignmentOptions = {}): TimeWarp | null {
+  let frameRate = options.frameRate ?? DEFAULT_FRAME_RATE;
+  let preparedNative = prepareContour(native, frameRate);
+  let preparedUser = prepareContour(user, frameRate);
+  if (!preparedNative || !preparedUser) return null;
+
+  const cells = preparedNative.values.length * preparedUser.values.length;
+  if (cells > MAX_DTW_CELLS) {
+    frameRate *= Math.sqrt(MAX_DTW_CELLS / cells);
+    preparedNative = prepareContour(native, frameRate);
+    preparedUser = prepareContour(user, frameRate);
+    if (!preparedNative || !preparedUser) return null;
+  }
+
+  const path = dynamicTimeWarp(preparedNative.values, preparedUser.values, options.bandRatio);
+
+  // Several native frames can map to one user frame; keep the average so the warp stays a function
+  const userTimes: number[] = [];
+  const nativeTimes: number[] = [];
+  let index = 0;
+  while (index < path.length) {
+    const userIndex = path[index][1];
+    let sum = 0;
+    let count = 0;
+    while (index < path.length && path[index][1] === userIndex) {
+      sum += path[index][0];
+      count++;
+      index++;
+    }
+    userTimes.push(preparedUser.start + userIndex / frameRate);
+    nativeTimes.push(preparedNative.start + sum / count / frameRate);
+  }
+
+  console.log(`[TimeAlignment] Aligned ${preparedUser.values.length} user frames to ${preparedNative.values.length} native frames`);
+  return { userTimes, nativeTimes };
+}
+
+// Map a user time onto the native timeline. Times outside the aligned span are shifted
+// by the offset at the nearest end.
+export function warpTime(warp: TimeWarp, time: number): number {
+  const { userTimes, nativeTimes } = warp;
+  const last = userTimes.length - 1;
+  if (last < 0) return time;
+  if (time <= userTimes[0]) return nativeTimes[0] + (time - userTimes[0]);
+  if (time >= userTimes[last]) return nativeTimes[last] + (time - userTimes[last]);
+
+  // Binary search for the surrounding anchors
+  let low = 0;
+  let high = last;
+  while (high - low > 1) {
+    const mid = (low + high) >> 1;
+    if (userTimes[mid] <= time) low = mid;
+    else high = mid;
+  }
+  const span = userTimes[high] - userTimes[low];
+  const progress = span > 0 ? (time - userTimes[low]) / span : 0;
+  return nativeTimes[low] + (nativeTimes[high] - nativeTimes[low]) * progress;
+}
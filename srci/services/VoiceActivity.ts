@@ -0,0 +1,160 @@
+import { encodeWav, readWavSampleRate } from './WavEncoder';
+
+// Analysis frame and hop for the activity decision, in seconds
+const FRAME_DURATION = 0.02;
+const HOP_DURATION = 0.01;
+// A frame is active when it is this far above the noise floor...
+const NOISE_MARGIN_DB = 12;
+// ...and not too far below the loudest frame
+const PEAK_RANGE_DB = 40;
+// Shorter bursts (button clicks, bumps) are not speech
+const MIN_SPEECH_DURATION = 0.08;
+// Pauses shorter than this inside the utterance keep it in one piece
+const MAX_PAUSE_DURATION = 0.3;
+
+const STORAGE_KEY = 'recordingTrimSettings';
+export const TRIM_PADDING_OPTIONS = [0, 0.1, 0.2, 0.3, 0.5];
+
+export interface TrimSettings {
+  enabled: boolean;
+  // Silence kept before and after the detected speech, in seconds
+  padding: number;
+}
+
+export const DEFAULT_TRIM_SETTINGS: TrimSettings = { enabled: true, padding: 0.2 };
+
+export interface SpeechRegion {
+  start: number;
+  end: number;
+}
+
+export interface TrimmedRecording {
+  blob: Blob;
+  // Seconds cut from the start of the original recording
+  offset: number;
+  duration: number;
+}
+
+export function loadTrimSettings(): TrimSettings {
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY);
+    if (stored) {
+      const parsed = JSON.parse(stored) as Partial<TrimSettings>;
+      const padding = Number(parsed.padding);
+      return {
+        enabled: typeof parsed.enabled === 'boolean' ? parsed.enabled : DEFAULT_TRIM_SETTINGS.enabled,
+        padding: TRIM_PADDING_OPTIONS.includes(padding) ? padding : DEFAULT_TRIM_SETTINGS.padding,
+      };
+    }
+  } catch (error) {
+    console.warn('[VoiceActivity] Could not read stored trim settings:', error);
+  }
+  return DEFAULT_TRIM_SETTINGS;
+}
+
+export function saveTrimSettings(settings: TrimSettings) {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.warn('[VoiceActivity] Could not store trim settings:', error);
+  }
+}
+
+const toDb = (power: number) => 10 * Math.log10(power + 1e-12);
+
+// Span from the first to the last stretch of speech, or null if nothing sounds like speech.
+// The threshold adapts to the recording: the noise floor is a low percentile of frame energy.
+export function detectSpeechRegion(samples: Float32Array, sampleRate: number): SpeechRegion | null {
+  const frameSamples = Math.max(1, Math.round(FRAME_DURATION * sampleRate));
+  const hopSamples = Math.max(1, Math.round(HOP_DURATION * sampleRate));
+  const frameCount = Math.floor(Math.max(0, samples.length - frameSamples) / hopSamples) + 1;
+  if (samples.length < frameSamples) return null;
+
+  const frameDb = new Float32Array(frameCount);
+  for (let f = 0; f < frameCount; f++) {
+    const start = f * hopSamples;
+    let sum = 0;
+    for (let i = start; i < start + frameSamples; i++) sum += samples[i] * samples[i];
+    frameDb[f] = toDb(sum / frameSamples);
+  }
+
+  const sorted = Array.from(frameDb).sort((a, b) => a - b);
+  const noiseFloor = sorted[Math.floor(sorted.length * 0.1)];
+  const peak = sorted[sorted.length - 1];
+  const threshold = Math.max(noiseFloor + NOISE_MARGIN_DB, peak - PEAK_RANGE_DB);
+
+  // Runs of active frames, with short pauses bridged
+  const maxPauseFrames = Math.round(MAX_PAUSE_DURATION / HOP_DURATION);
+  const runs: { first: number; last: number }[] = [];
+  for (let f = 0; f < frameCount; f++) {
+    if (frameDb[f] < threshold) continue;
+    const previous = runs[runs.length - 1];
+    if (previous && f - previous.last <= maxPauseFrames) previous.last = f;
+    else runs.push({ first: f, last: f });
+  }
+
+  const minFrames = Math.round(MIN_SPEECH_DURATION / HOP_DURATION);
+  const speech = runs.filter(run => run.last - run.first + 1 >= minFrames);
+  if (speech.length === 0) return null;
+
+  return {
+    start: (speech[0].first * hopSamples) / sampleRate,
+    end: (speech[speech.length - 1].last * hopSamples + frameSamples) / sampleRate,
+  };
+}
+
+// Decode a take. WAV takes are decoded at their own sample rate, since a default context
+// would resample them to the device rate and the rate chosen for recording would be lost.
+export async function decodeRecording(blob: Blob): Promise<AudioBuffer> {
+  const arrayBuffer = await blob.arrayBuffer();
+  const wavSampleRate = readWavSampleRate(arrayBuffer);
+  if (wavSampleRate) {
+    const audioBuffer = await new OfflineAudioContext(1, 1, wavSampleRate).decodeAudioData(arrayBuffer);
+    if (audioBuffer.sampleRate !== wavSampleRate) {
+      console.warn(`[VoiceActivity] WAV at ${wavSampleRate} Hz was decoded at ${audioBuffer.sampleRate} Hz`);
+    }
+    return audioBuffer;
+  }
+
+  const audioCtx = new (window.AudioContext || window.webkitAudioContext)();
+  try {
+    return await audioCtx.decodeAudioData(arrayBuffer);
+  } finally {
+    audioCtx.close().catch(error => console.warn('[VoiceActivity] Could not close audio context:', error));
+  }
+}
+
+// Cut leading and trailing silence off a recording, keeping `padding` seconds around the
+// speech. Returns null when there is nothing to trim or no speech was found.
+export async function trimRecording(blob: Blob, padding: number): Promise<TrimmedRecording | null> {
+  const audioBuffer = await decodeRecording(blob);
+  const samples = audioBuffer.getChannelData(0);
+  const { sampleRate } = audioBuffer;
+  const region = detectSpeechRegion(samples, sampleRate);
+  if (!region) {
+    console.log('[VoiceActivity] No speech detected, keeping the recording as is');
+    return null;
+  }
+
+  const startSample = Math.max(0, Math.floor((region.start - padding) * sampleRate));
+  const endSample = Math.min(samples.length, Math.ceil((region.end + padding) * sampleRate));
+  if (startSample === 0 && endSample === samples.length) return null;
+
+  console.log(
+    `[VoiceActivity] Trimmed ${(startSample / sampleRate).toFixed(2)}s before and ` +
+    `${((samples.length - endSample) / sampleRate).toFixed(2)}s after the speech`
+  );
+  return {
+    blob: encodeWav(samples.subarray(startSample, endSample), sampleRate),
+    offset: startSample / sampleRate,
+    duration: (endSample - startSample) / sampleRate,
+  };
+}
+
+// Drop everything before `start` seconds
+export async function cropRecording(blob: Blob, start: number): Promise<Blob> {
+  const audioBuffer = await decodeRecording(blob);
+  const samples = audioBuffer.getChannelData(0);
+  const startSample = Math.min(samples.length, Math.max(0, Math.round(start * audioBuffer.sampleRate)));
+  return encodeWav(samples.subarray(startSample), audioBuffer.sampleRate);
+}
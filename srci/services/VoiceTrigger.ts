@@ -0,0 +1,124 @@
+// Watches the microphone level and reports when speech starts and when it has stopped.
+// The first moments after start() calibrate the noise floor, so keep quiet while arming.
+
+import { MicrophoneAnalyser } from './MicrophoneAnalyser';
+
+const POLL_INTERVAL_MS = 25;
+const ANALYSER_SIZE = 1024;
+const CALIBRATION_SECONDS = 0.3;
+// Speech must be this far above the calibrated floor, and at least this loud overall
+const ONSET_MARGIN_DB = 15;
+const MIN_THRESHOLD_DB = -55;
+// Consecutive loud polls needed before it counts as speech (skips clicks)
+const ONSET_POLLS = 3;
+
+export interface VoiceTriggerOptions {
+  // Seconds of silence after speech before onSpeechEnd fires
+  silenceDuration: number;
+}
+
+export interface VoiceTriggerCallbacks {
+  // `time` is on the trigger's clock, see now()
+  onSpeechStart: (time: number) => void;
+  onSpeechEnd: () => void;
+}
+
+type TriggerState = 'calibrating' | 'waiting' | 'speaking' | 'done';
+
+export class VoiceTrigger {
+  private options: VoiceTriggerOptions;
+  private callbacks: VoiceTriggerCallbacks;
+  private microphone: MicrophoneAnalyser | null = null;
+  private buffer = new Float32Array(ANALYSER_SIZE);
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private state: TriggerState = 'calibrating';
+  private startTime = 0;
+  private calibration: number[] = [];
+  private threshold = MIN_THRESHOLD_DB;
+  private loudSince: number | null = null;
+  private loudPolls = 0;
+  private silentSince: number | null = null;
+
+  constructor(options: VoiceTriggerOptions, callbacks: VoiceTriggerCallbacks) {
+    this.options = options;
+    this.callbacks = callbacks;
+  }
+
+  start(stream: MediaStream) {
+    this.stop();
+    const microphone = new MicrophoneAnalyser(stream, ANALYSER_SIZE);
+    this.microphone = microphone;
+    this.startTime = microphone.currentTime;
+    this.state = 'calibrating';
+    this.calibration = [];
+    this.loudSince = null;
+    this.loudPolls = 0;
+    this.silentSince = null;
+    this.timer = setInterval(() => this.poll(), POLL_INTERVAL_MS);
+  }
+
+  stop() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+    this.microphone?.close();
+    this.microphone = null;
+  }
+
+  // True while the level is above the threshold but not yet long enough to count as speech
+  get isOnsetPending(): boolean {
+    return this.state === 'waiting' && this.loudSince !== null;
+  }
+
+  // Seconds since start()
+  now(): number {
+    return this.microphone ? this.microphone.currentTime - this.startTime : 0;
+  }
+
+  private poll() {
+    const microphone = this.microphone;
+    if (!microphone || this.state === 'done' || !microphone.read(this.buffer)) return;
+    let sum = 0;
+    for (let i = 0; i < this.buffer.length; i++) sum += this.buffer[i] * this.buffer[i];
+    const db = 10 * Math.log10(sum / this.buffer.length + 1e-12);
+    const time = this.now();
+
+    if (this.state === 'calibrating') {
+      this.calibration.push(db);
+      if (time >= CALIBRATION_SECONDS) {
+        const sorted = [...this.calibration].sort((a, b) => a - b);
+        const floor = sorted[Math.floor(sorted.length / 2)];
+        this.threshold = Math.max(MIN_THRESHOLD_DB, floor + ONSET_MARGIN_DB);
+        this.state = 'waiting';
+        console.log(`[VoiceTrigger] Noise floor ${floor.toFixed(1)} dB, threshold ${this.threshold.toFixed(1)} dB`);
+      }
+      return;
+    }
+
+    const loud = db >= this.threshold;
+    if (this.state === 'waiting') {
+      if (!loud) {
+        this.loudSince = null;
+        this.loudPolls = 0;
+        return;
+      }
+      // The analysed window reaches back before this poll, so date the onset from it
+      this.loudSince ??= Math.max(0, time - ANALYSER_SIZE / microphone.sampleRate);
+      if (++this.loudPolls >= ONSET_POLLS) {
+        this.state = 'speaking';
+        this.callbacks.onSpeechStart(this.loudSince);
+      }
+      return;
+    }
+
+    // Speaking: wait for a long enough silence
+    if (loud) {
+      this.silentSince = null;
+    } else {
+      this.silentSince ??= time;
+      if (time - this.silentSince >= this.options.silenceDuration) {
+        this.state = 'done';
+        this.callbacks.onSpeechEnd();
+      }
+    }
+  }
+}
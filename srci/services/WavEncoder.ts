@@ -0,0 +1,134 @@
+// 16-bit PCM WAV, which every browser can play back and decode without codec differences
+
+const WAV_HEADER_BYTES = 44;
+
+export function encodeWav(samples: Float32Array, sampleRate: number): Blob {
+  const buffer = new ArrayBuffer(WAV_HEADER_BYTES + samples.length * 2);
+  const view = new DataView(buffer);
+  const writeString = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i));
+  };
+
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + samples.length * 2, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true); // fmt chunk size
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true); // byte rate
+  view.setUint16(32, 2, true); // block align
+  view.setUint16(34, 16, true); // bits per sample
+  writeString(36, 'data');
+  view.setUint32(40, samples.length * 2, true);
+
+  let offset = WAV_HEADER_BYTES;
+  for (let i = 0; i < samples.length; i++) {
+    const value = Math.max(-1, Math.min(1, samples[i]));
+    view.setInt16(offset, value < 0 ? value * 0x8000 : value * 0x7fff, true);
+    offset += 2;
+  }
+  return new Blob([buffer], { type: 'audio/wav' });
+}
+
+export interface WavFormat {
+  encoding: 'pcm' | 'float';
+  channels: number;
+  sampleRate: number;
+  bitsPerSample: number;
+  // Bytes per sample frame, all channels together
+  blockAlign: number;
+  // Where the sample data sits in the file
+  dataOffset: number;
+  dataBytes: number;
+}
+
+const FORMAT_PCM = 1;
+const FORMAT_FLOAT = 3;
+const FORMAT_EXTENSIBLE = 0xfffe;
+
+// Calls `visit` with the id, data offset and size of each chunk in a RIFF/WAVE header until
+// it returns true. Returns false if the data is not a WAV file.
+function walkWavChunks(data: ArrayBuffer, visit: (id: string, offset: number, size: number) => boolean): boolean {
+  const view = new DataView(data);
+  const readString = (offset: number) =>
+    String.fromCharCode(view.getUint8(offset), view.getUint8(offset + 1), view.getUint8(offset + 2), view.getUint8(offset + 3));
+  if (data.byteLength < WAV_HEADER_BYTES || readString(0) !== 'RIFF' || readString(8) !== 'WAVE') return false;
+
+  // The fmt chunk is not always the first one
+  let offset = 12;
+  while (offset + 8 <= data.byteLength) {
+    const size = view.getUint32(offset + 4, true);
+    if (visit(readString(offset), offset + 8, size)) break;
+    offset += 8 + size + (size % 2);
+  }
+  return true;
+}
+
+// Sample rate from a WAV header, or null if the data is not a WAV file
+export function readWavSampleRate(data: ArrayBuffer): number | null {
+  let sampleRate: number | null = null;
+  walkWavChunks(data, (id, offset) => {
+    if (id !== 'fmt ') return false;
+    if (offset + 8 <= data.byteLength) sampleRate = new DataView(data).getUint32(offset + 4, true);
+    return true;
+  });
+  return sampleRate;
+}
+
+// Sample layout of an uncompressed WAV file from the start of it, or null if the file is not
+// a WAV file, its samples are not plain integer or float PCM, or the header does not fit in `data`
+export function readWavFormat(data: ArrayBuffer, fileSize: number): WavFormat | null {
+  const view = new DataView(data);
+  let format: Omit<WavFormat, 'dataOffset' | 'dataBytes'> | null = null;
+  let result: WavFormat | null = null;
+  walkWavChunks(data, (id, offset, size) => {
+    if (id === 'fmt ' && offset + 16 <= data.byteLength) {
+      let tag = view.getUint16(offset, true);
+      // WAVE_FORMAT_EXTENSIBLE keeps the real format in the first bytes of the sub-format GUID
+      if (tag === FORMAT_EXTENSIBLE && size >= 40 && offset + 26 <= data.byteLength) tag = view.getUint16(offset + 24, true);
+      const bitsPerSample = view.getUint16(offset + 14, true);
+      const encoding = tag === FORMAT_PCM ? 'pcm' : tag === FORMAT_FLOAT ? 'float' : null;
+      const supported = encoding === 'pcm' ? [8, 16, 24, 32].includes(bitsPerSample) : encoding === 'float' && [32, 64].includes(bitsPerSample);
+      if (!encoding || !supported) return true;
+      format = {
+        encoding,
+        channels: view.getUint16(offset + 2, true),
+        sampleRate: view.getUint32(offset + 4, true),
+        bitsPerSample,
+        blockAlign: view.getUint16(offset + 12, true),
+      };
+      return false;
+    }
+    if (id === 'data') {
+      // Streamed or truncated files can claim more data than they hold
+      if (format && format.channels > 0 && format.blockAlign >= (format.bitsPerSample / 8) * format.channels) {
+        result = { ...format, dataOffset: offset, dataBytes: Math.min(size, fileSize - offset) };
+      }
+      return true;
+    }
+    return false;
+  });
+  return result;
+}
+
+// First channel of a run of whole WAV sample frames, as floats in [-1, 1]
+export function readWavChannel(data: ArrayBuffer, format: WavFormat): Float32Array {
+  const view = new DataView(data);
+  const samples = new Float32Array(Math.floor(data.byteLength / format.blockAlign));
+  const readSample: (offset: number) => number =
+    format.encoding === 'float'
+      ? format.bitsPerSample === 64
+        ? offset => view.getFloat64(offset, true)
+        : offset => view.getFloat32(offset, true)
+      : format.bitsPerSample === 8
+        ? offset => (view.getUint8(offset) - 0x80) / 0x80
+        : format.bitsPerSample === 16
+          ? offset => view.getInt16(offset, true) / 0x8000
+          : format.bitsPerSample === 24
+            ? offset => ((view.getInt8(offset + 2) << 16) | (view.getUint8(offset + 1) << 8) | view.getUint8(offset)) / 0x800000
+            : offset => view.getInt32(offset, true) / 0x80000000;
+  for (let i = 0; i < samples.length; i++) samples[i] = readSample(i * format.blockAlign);
+  return samples;
+}
@@ -0,0 +1,46 @@
+import type { PitchTracker, PitchTrackerOptions } from '../PitchTracker';
+import { CorrelationWorkspace, lagRange, parabolicInterpolation } from './Correlation';
+
+// Peaks within this fraction of the highest one count as candidates; taking the first
+// (shortest lag) keeps subharmonic peaks from winning
+const PEAK_RATIO = 0.9;
+
+// Plain normalised autocorrelation. Cheap and predictable, mostly useful as a baseline
+// to compare the other trackers against.
+export class AutocorrelationTracker implements PitchTracker {
+  readonly algorithm = 'acf' as const;
+  private options: PitchTrackerOptions;
+  private workspace: CorrelationWorkspace;
+
+  constructor(options: PitchTrackerOptions) {
+    this.options = options;
+    this.workspace = new CorrelationWorkspace(options.frameSize);
+  }
+
+  findPitch(frame: Float32Array, sampleRate: number): [number, number] {
+    const r = this.workspace.correlation(frame);
+    const energies = this.workspace.windowEnergies(frame);
+    const [minLag, maxLag] = lagRange(sampleRate, this.options.minPitch, this.options.maxPitch, r.length - 1);
+
+    // Normalise each lag by the energy of both windows so the result is in [-1, 1]
+    const normalized = new Float64Array(r.length);
+    for (let tau = 0; tau < r.length; tau++) {
+      const denominator = Math.sqrt(energies[0] * energies[tau]);
+      normalized[tau] = denominator > 0 ? r[tau] / denominator : 0;
+    }
+
+    const peaks: number[] = [];
+    let highest = 0;
+    for (let tau = minLag; tau <= maxLag; tau++) {
+      if (normalized[tau] > normalized[tau - 1] && normalized[tau] >= normalized[tau + 1]) {
+        peaks.push(tau);
+        highest = Math.max(highest, normalized[tau]);
+      }
+    }
+    if (peaks.length === 0 || highest <= 0) return [0, 0];
+
+    const bestLag = peaks.find(tau => normalized[tau] >= highest * PEAK_RATIO) ?? peaks[0];
+    const refinedLag = parabolicInterpolation(normalized, bestLag);
+    return [sampleRate / refinedLag, Math.max(0, Math.min(1, normalized[bestLag]))];
+  }
+}
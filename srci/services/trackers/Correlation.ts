@@ -0,0 +1,155 @@
+// Shared DSP for the YIN-family and autocorrelation trackers. Correlations are computed
+// with an FFT so long frames (needed for low voices) stay affordable.
+
+// In-place iterative radix-2 FFT; `re.length` must be a power of two
+export function fft(re: Float64Array, im: Float64Array, inverse = false) {
+  const n = re.length;
+
+  // Bit-reversal permutation
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+
+  for (let size = 2; size <= n; size <<= 1) {
+    const angle = ((inverse ? 2 : -2) * Math.PI) / size;
+    const wRe = Math.cos(angle);
+    const wIm = Math.sin(angle);
+    for (let start = 0; start < n; start += size) {
+      let curRe = 1;
+      let curIm = 0;
+      for (let k = 0; k < size / 2; k++) {
+        const a = start + k;
+        const b = a + size / 2;
+        const tRe = re[b] * curRe - im[b] * curIm;
+        const tIm = re[b] * curIm + im[b] * curRe;
+        re[b] = re[a] - tRe;
+        im[b] = im[a] - tIm;
+        re[a] += tRe;
+        im[a] += tIm;
+        const nextRe = curRe * wRe - curIm * wIm;
+        curIm = curRe * wIm + curIm * wRe;
+        curRe = nextRe;
+      }
+    }
+  }
+
+  if (inverse) {
+    for (let i = 0; i < n; i++) {
+      re[i] /= n;
+      im[i] /= n;
+    }
+  }
+}
+
+// Precomputes buffers for one frame size and evaluates the correlation-based functions
+// used by the trackers. Lags run from 0 to frameSize / 2.
+export class CorrelationWorkspace {
+  readonly frameSize: number;
+  readonly maxLag: number;
+  private windowRe: Float64Array;
+  private windowIm: Float64Array;
+  private frameRe: Float64Array;
+  private frameIm: Float64Array;
+  private prefixEnergy: Float64Array;
+
+  constructor(frameSize: number) {
+    this.frameSize = frameSize;
+    this.maxLag = Math.floor(frameSize / 2);
+    this.windowRe = new Float64Array(frameSize);
+    this.windowIm = new Float64Array(frameSize);
+    this.frameRe = new Float64Array(frameSize);
+    this.frameIm = new Float64Array(frameSize);
+    this.prefixEnergy = new Float64Array(frameSize + 1);
+  }
+
+  // r(tau) = sum_{j < W} x[j] * x[j + tau] with W = frameSize / 2. Since j + tau < frameSize,
+  // a circular correlation of length frameSize never wraps around.
+  correlation(frame: Float32Array): Float64Array {
+    const n = this.frameSize;
+    const w = this.maxLag;
+    this.windowRe.fill(0);
+    this.windowIm.fill(0);
+    this.frameIm.fill(0);
+    for (let i = 0; i < n; i++) {
+      this.frameRe[i] = frame[i];
+      if (i < w) this.windowRe[i] = frame[i];
+    }
+
+    fft(this.windowRe, this.windowIm);
+    fft(this.frameRe, this.frameIm);
+
+    // conj(W) * X
+    for (let i = 0; i < n; i++) {
+      const re = this.windowRe[i] * this.frameRe[i] + this.windowIm[i] * this.frameIm[i];
+      const im = this.windowRe[i] * this.frameIm[i] - this.windowIm[i] * this.frameRe[i];
+      this.frameRe[i] = re;
+      this.frameIm[i] = im;
+    }
+    fft(this.frameRe, this.frameIm, true);
+
+    return this.frameRe.slice(0, w + 1);
+  }
+
+  // Energy of frame[tau .. tau + W - 1] for every lag
+  windowEnergies(frame: Float32Array): Float64Array {
+    const w = this.maxLag;
+    this.prefixEnergy[0] = 0;
+    for (let i = 0; i < this.frameSize; i++) {
+      this.prefixEnergy[i + 1] = this.prefixEnergy[i] + frame[i] * frame[i];
+    }
+    const energies = new Float64Array(w + 1);
+    for (let tau = 0; tau <= w; tau++) {
+      energies[tau] = this.prefixEnergy[Math.min(this.frameSize, tau + w)] - this.prefixEnergy[tau];
+    }
+    return energies;
+  }
+
+  // YIN difference function d(tau) = e(0) + e(tau) - 2 r(tau)
+  difference(frame: Float32Array): Float64Array {
+    const r = this.correlation(frame);
+    const e = this.windowEnergies(frame);
+    const d = new Float64Array(r.length);
+    for (let tau = 0; tau < r.length; tau++) {
+      d[tau] = Math.max(0, e[0] + e[tau] - 2 * r[tau]);
+    }
+    return d;
+  }
+
+  // YIN cumulative mean normalised difference d'(tau)
+  cumulativeMeanNormalizedDifference(frame: Float32Array): Float64Array {
+    const d = this.difference(frame);
+    const cmnd = new Float64Array(d.length);
+    cmnd[0] = 1;
+    let runningSum = 0;
+    for (let tau = 1; tau < d.length; tau++) {
+      runningSum += d[tau];
+      cmnd[tau] = runningSum > 0 ? (d[tau] * tau) / runningSum : 1;
+    }
+    return cmnd;
+  }
+}
+
+// Refine an integer lag using a parabola through its neighbours
+export function parabolicInterpolation(values: ArrayLike<number>, index: number): number {
+  if (index <= 0 || index >= values.length - 1) return index;
+  const left = values[index - 1];
+  const center = values[index];
+  const right = values[index + 1];
+  const denominator = left - 2 * center + right;
+  if (denominator === 0) return index;
+  const shift = (0.5 * (left - right)) / denominator;
+  return Math.abs(shift) <= 1 ? index + shift : index;
+}
+
+// Lag search range for a pitch band, clamped to what the frame can represent
+export function lagRange(sampleRate: number, minPitch: number, maxPitch: number, maxLag: number): [number, number] {
+  const minLag = Math.max(2, Math.floor(sampleRate / maxPitch));
+  const upperLag = Math.min(maxLag - 1, Math.ceil(sampleRate / minPitch));
+  return [minLag, Math.max(minLag, upperLag)];
+}
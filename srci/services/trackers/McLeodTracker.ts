@@ -0,0 +1,16 @@
+import { PitchDetector } from 'pitchy';
+import type { PitchTracker, PitchTrackerOptions } from '../PitchTracker';
+
+// McLeod Pitch Method, provided by pitchy
+export class McLeodTracker implements PitchTracker {
+  readonly algorithm = 'mpm' as const;
+  private detector: PitchDetector<Float32Array>;
+
+  constructor(options: PitchTrackerOptions) {
+    this.detector = PitchDetector.forFloat32Array(options.frameSize);
+  }
+
+  findPitch(frame: Float32Array, sampleRate: number): [number, number] {
+    return this.detector.findPitch(frame, sampleRate);
+  }
+}
@@ -0,0 +1,76 @@
+import type { PitchTracker, PitchTrackerOptions } from '../PitchTracker';
+import { CorrelationWorkspace, lagRange, parabolicInterpolation } from './Correlation';
+
+// Thresholds 0.01 .. 1.00 with a Beta(2, 18) prior, as in Mauch & Dixon (2014)
+const THRESHOLD_COUNT = 100;
+const BETA_ALPHA = 2;
+const BETA_BETA = 18;
+
+// Probability given to the global minimum when no dip falls below a threshold
+const ABSOLUTE_MIN_WEIGHT = 0.01;
+
+function betaPrior(): Float64Array {
+  const weights = new Float64Array(THRESHOLD_COUNT);
+  let total = 0;
+  for (let i = 0; i < THRESHOLD_COUNT; i++) {
+    const x = (i + 0.5) / THRESHOLD_COUNT;
+    weights[i] = Math.pow(x, BETA_ALPHA - 1) * Math.pow(1 - x, BETA_BETA - 1);
+    total += weights[i];
+  }
+  for (let i = 0; i < THRESHOLD_COUNT; i++) weights[i] /= total;
+  return weights;
+}
+
+// Probabilistic YIN: instead of a single threshold, every threshold drawn from the prior
+// votes for the dip it would have picked. The most probable dip becomes the pitch and its
+// total probability the clarity, so weak or ambiguous frames drop out of the contour
+// instead of jumping an octave.
+export class PyinTracker implements PitchTracker {
+  readonly algorithm = 'pyin' as const;
+  private options: PitchTrackerOptions;
+  private workspace: CorrelationWorkspace;
+  private prior = betaPrior();
+
+  constructor(options: PitchTrackerOptions) {
+    this.options = options;
+    this.workspace = new CorrelationWorkspace(options.frameSize);
+  }
+
+  findPitch(frame: Float32Array, sampleRate: number): [number, number] {
+    const cmnd = this.workspace.cumulativeMeanNormalizedDifference(frame);
+    const [minLag, maxLag] = lagRange(sampleRate, this.options.minPitch, this.options.maxPitch, cmnd.length);
+
+    // Local minima of the difference function are the pitch candidates
+    const dips: number[] = [];
+    let globalMin = minLag;
+    for (let tau = minLag; tau <= maxLag; tau++) {
+      if (cmnd[tau] < cmnd[globalMin]) globalMin = tau;
+      const left = tau > 0 ? cmnd[tau - 1] : Infinity;
+      const right = tau + 1 < cmnd.length ? cmnd[tau + 1] : Infinity;
+      if (cmnd[tau] < left && cmnd[tau] <= right) dips.push(tau);
+    }
+
+    const probabilities = new Map<number, number>();
+    for (let i = 0; i < THRESHOLD_COUNT; i++) {
+      const threshold = (i + 1) / THRESHOLD_COUNT;
+      const dip = dips.find(tau => cmnd[tau] < threshold);
+      if (dip !== undefined) {
+        probabilities.set(dip, (probabilities.get(dip) ?? 0) + this.prior[i]);
+      } else {
+        probabilities.set(globalMin, (probabilities.get(globalMin) ?? 0) + this.prior[i] * ABSOLUTE_MIN_WEIGHT);
+      }
+    }
+
+    let bestLag = globalMin;
+    let bestProbability = 0;
+    for (const [tau, probability] of probabilities) {
+      if (probability > bestProbability) {
+        bestLag = tau;
+        bestProbability = probability;
+      }
+    }
+
+    const refinedLag = parabolicInterpolation(cmnd, bestLag);
+    return [sampleRate / refinedLag, Math.min(1, bestProbability)];
+  }
+}
@@ -0,0 +1,46 @@
+import type { PitchTracker, PitchTrackerOptions } from '../PitchTracker';
+import { CorrelationWorkspace, lagRange, parabolicInterpolation } from './Correlation';
+
+// Absolute threshold on the normalised difference function (de Cheveigné & Kawahara, 2002)
+const YIN_THRESHOLD = 0.15;
+
+// YIN: picks the first dip of the cumulative mean normalised difference function below a
+// threshold, which favours the true period over its multiples and avoids octave-down errors
+export class YinTracker implements PitchTracker {
+  readonly algorithm = 'yin' as const;
+  private options: PitchTrackerOptions;
+  private workspace: CorrelationWorkspace;
+
+  constructor(options: PitchTrackerOptions) {
+    this.options = options;
+    this.workspace = new CorrelationWorkspace(options.frameSize);
+  }
+
+  findPitch(frame: Float32Array, sampleRate: number): [number, number] {
+    const cmnd = this.workspace.cumulativeMeanNormalizedDifference(frame);
+    const [minLag, maxLag] = lagRange(sampleRate, this.options.minPitch, this.options.maxPitch, cmnd.length);
+
+    let bestLag = -1;
+    for (let tau = minLag; tau <= maxLag; tau++) {
+      if (cmnd[tau] < YIN_THRESHOLD) {
+        // Walk down to the bottom of this dip
+        while (tau + 1 <= maxLag && cmnd[tau + 1] < cmnd[tau]) tau++;
+        bestLag = tau;
+        break;
+      }
+    }
+
+    // No dip under the threshold: fall back to the global minimum, which usually
+    // means an unvoiced or very noisy frame and gets a low clarity
+    if (bestLag < 0) {
+      bestLag = minLag;
+      for (let tau = minLag + 1; tau <= maxLag; tau++) {
+        if (cmnd[tau] < cmnd[bestLag]) bestLag = tau;
+      }
+    }
+
+    const refinedLag = parabolicInterpolation(cmnd, bestLag);
+    const clarity = Math.max(0, Math.min(1, 1 - cmnd[bestLag]));
+    return [sampleRate / refinedLag, clarity];
+  }
+}